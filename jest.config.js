@@ -0,0 +1,12 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  globals: {
+    'ts-jest': {
+      tsconfig: { module: 'commonjs' },
+      // Unused locals are reported by tsc, not by the tests
+      diagnostics: { ignoreCodes: [6133] }
+    }
+  }
+};
@@ -5,29 +5,51 @@ import { terser } from 'rollup-plugin-terser';
 import peerDepsExternal from 'rollup-plugin-peer-deps-external';
 import pkg from './package.json';
 
-export default {
-  input: 'src/index.ts',
-  output: [
-    {
-      file: pkg.main,
-      format: 'cjs',
-      sourcemap: true,
-    },
-    {
-      file: pkg.module,
-      format: 'esm',
-      sourcemap: true,
-    },
-  ],
-  plugins: [
-    peerDepsExternal(),
-    resolve(),
-    commonjs(),
-    typescript({
-      tsconfig: './tsconfig.json',
-      exclude: ['**/__tests__/**', '**/*.test.ts', '**/*.test.tsx'],
-    }),
-    terser(),
-  ],
-  external: ['react', 'react-dom'],
-}; 
\ No newline at end of file
+const plugins = () => [
+  peerDepsExternal(),
+  resolve(),
+  commonjs(),
+  typescript({
+    tsconfig: './tsconfig.json',
+    exclude: ['**/__tests__/**', '**/*.test.ts', '**/*.test.tsx'],
+  }),
+  terser(),
+];
+
+export default [
+  {
+    input: 'src/index.ts',
+    output: [
+      {
+        file: pkg.main,
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: pkg.module,
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    plugins: plugins(),
+    external: ['react', 'react-dom'],
+  },
+  {
+    // React-free entry point for non-React widgets and web components
+    input: 'src/engine.ts',
+    output: [
+      {
+        file: 'dist/engine.js',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/engine.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    plugins: plugins(),
+    external: ['react', 'react-dom'],
+  },
+]; 
\ No newline at end of file
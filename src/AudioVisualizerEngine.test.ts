@@ -0,0 +1,51 @@
+import { AudioVisualizerEngine } from './AudioVisualizerEngine';
+import { VisualizerStatus } from './types';
+
+// Context whose resume() waits until the test lets it finish
+const createContext = () => {
+  let finishResume = () => {};
+  const resumed = new Promise<void>(resolve => {
+    finishResume = resolve;
+  });
+  const context = {
+    state: 'suspended',
+    resume: () => resumed.then(() => { context.state = 'running'; }),
+    createAnalyser: () => ({ fftSize: 2048, maxDecibels: -30, disconnect: () => {} }),
+    // Decoding never finishes, so the load stays in 'decoding'
+    decodeAudioData: () => new Promise(() => {})
+  };
+  return { context: context as unknown as AudioContext, finishResume };
+};
+
+describe('AudioVisualizerEngine', () => {
+  const getUserMedia = jest.fn(() => new Promise(() => {}));
+
+  beforeAll(() => {
+    Object.assign(globalThis, {
+      navigator: { mediaDevices: { getUserMedia } },
+      AudioBufferSourceNode: class {},
+      FileReader: class {
+        result = new ArrayBuffer(8);
+        onload: (() => void) | null = null;
+        readAsArrayBuffer() {
+          setTimeout(() => this.onload?.(), 0);
+        }
+      }
+    });
+  });
+
+  it('drops a start that a load took over while the context was resuming', async () => {
+    const { context, finishResume } = createContext();
+    const engine = new AudioVisualizerEngine({ audioContext: context });
+    const statuses: VisualizerStatus[] = [];
+    engine.addEventListener('statuschange', ({ status }) => statuses.push(status));
+
+    engine.start();
+    engine.load({} as File);
+    finishResume();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(getUserMedia).not.toHaveBeenCalled();
+    expect(statuses).toEqual(['loading', 'decoding']);
+  });
+});
@@ -0,0 +1,1185 @@
+import {
+  AudioAnalyserOptions,
+  AudioChannelData,
+  AudioData,
+  AudioFrameCallback,
+  AudioSourceType,
+  AudioVisualizerEngineOptions,
+  AudioVisualizerError,
+  AudioVisualizerEventListener,
+  AudioVisualizerEventMap,
+  AudioVisualizerState,
+  LoadAudioUrlOptions,
+  LoadProgress,
+  SharedAudioContext,
+  VisualizerStatus
+} from './types';
+import { getMediaElementSource, createAudioContext, resumeAudioContext } from './utils/audioSources';
+import {
+  fetchAudioData,
+  waitForMediaElement,
+  isAbortError,
+  createAbortError
+} from './utils/audioLoader';
+import {
+  createAudioError,
+  createMediaDevicesUnavailableError,
+  fromDecodeError,
+  fromMediaDevicesError,
+  isAudioError
+} from './utils/errors';
+
+type AnalyserSettings = Required<Pick<
+  AudioAnalyserOptions,
+  'fftSize' | 'smoothingTimeConstant' | 'minDecibels' | 'maxDecibels' | 'dataFormat' | 'channelCount'
+>> & Pick<AudioAnalyserOptions, 'deviceId' | 'audioConstraints'>;
+
+type EventListeners = {
+  [K in keyof AudioVisualizerEventMap]?: Set<AudioVisualizerEventListener<K>>;
+};
+
+/**
+ * Microphone constraints used unless overridden through options.
+ * Voice processing suits speech but distorts music, so it can be turned off.
+ */
+const DEFAULT_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+};
+
+/**
+ * Build the getUserMedia audio constraints for a device
+ */
+const buildAudioConstraints = (
+  deviceId?: string,
+  overrides?: MediaTrackConstraints
+): MediaTrackConstraints => ({
+  ...DEFAULT_AUDIO_CONSTRAINTS,
+  ...overrides,
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {})
+});
+
+/**
+ * Apply analyser options to an analyser node
+ */
+const configureAnalyser = (analyser: AnalyserNode, settings: AnalyserSettings): void => {
+  if (analyser.fftSize !== settings.fftSize) {
+    analyser.fftSize = settings.fftSize;
+  }
+  analyser.smoothingTimeConstant = settings.smoothingTimeConstant;
+
+  // minDecibels must stay below maxDecibels after every assignment
+  if (settings.minDecibels >= analyser.maxDecibels) {
+    analyser.maxDecibels = settings.maxDecibels;
+    analyser.minDecibels = settings.minDecibels;
+  } else {
+    analyser.minDecibels = settings.minDecibels;
+    analyser.maxDecibels = settings.maxDecibels;
+  }
+};
+
+/**
+ * Fill frequency and time data from an analyser in the format of the given arrays
+ */
+const readAnalyser = (analyser: AnalyserNode, data: AudioChannelData): void => {
+  const { frequencyData, timeData } = data;
+
+  if (frequencyData instanceof Float32Array && timeData instanceof Float32Array) {
+    // dBFS per bin, and samples in -1 to 1
+    analyser.getFloatFrequencyData(frequencyData);
+    analyser.getFloatTimeDomainData(timeData);
+  } else if (frequencyData instanceof Uint8Array && timeData instanceof Uint8Array) {
+    analyser.getByteFrequencyData(frequencyData);
+    analyser.getByteTimeDomainData(timeData);
+  }
+};
+
+/**
+ * Framework-agnostic audio analysis engine
+ *
+ * Owns the audio graph (microphone, file, URL, media element or node source
+ * feeding an AnalyserNode) and the animation loop. Frames are delivered through
+ * subscribe(); lifecycle changes through addEventListener(). The React hooks
+ * are thin adapters over this class, and it can be used directly from plain
+ * scripts or web components.
+ */
+export class AudioVisualizerEngine {
+  private settings: AnalyserSettings;
+  private readonly externalContext: AudioContext | null;
+  private readonly sharedContext: SharedAudioContext | null;
+
+  private context: AudioContext | null = null;
+  // Who closes the context: the engine, the shared pool, or its external owner
+  private contextOwner: 'self' | 'shared' | 'external' = 'self';
+  private analyserNode: AnalyserNode | null = null;
+  private splitter: ChannelSplitterNode | null = null; // Only used for per-channel analysis
+  private channelAnalysers: AnalyserNode[] = [];
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private animationFrame: number | null = null;
+
+  // Playback state for loaded files
+  private buffer: AudioBuffer | null = null;
+  private offset = 0;     // Buffer position (s) when playback last (re)started
+  private startedAt = 0;  // Context time when playback last (re)started
+
+  // Media element playback (connected or streamed)
+  private mediaElement: HTMLMediaElement | null = null;
+  private ownsMediaElement = false; // True for elements created to stream a URL
+  private loadController: AbortController | null = null;
+
+  // Frame subscription
+  private frame: AudioData | null = null;
+  private readonly frameSubscribers = new Set<AudioFrameCallback>();
+  private readonly listeners: EventListeners = {};
+
+  // Bumped whenever an operation starts or playback stops.
+  // Async work from an older operation is discarded, so the latest call wins.
+  private operation = 0;
+  // Last start, load or connect call, re-run by retry()
+  private lastOperation: (() => Promise<void>) | null = null;
+
+  private state: AudioVisualizerState = {
+    status: 'idle',
+    isRecording: false,
+    isPaused: false,
+    sourceType: null,
+    error: null,
+    duration: 0,
+    playbackRate: 1,
+    loop: false,
+    loadProgress: null
+  };
+
+  constructor(options: AudioVisualizerEngineOptions = {}) {
+    this.settings = {
+      fftSize: options.fftSize ?? 2048,
+      smoothingTimeConstant: options.smoothingTimeConstant ?? 0.8,
+      minDecibels: options.minDecibels ?? -100,
+      maxDecibels: options.maxDecibels ?? -30,
+      dataFormat: options.dataFormat ?? 'byte',
+      channelCount: options.channelCount ?? 1,
+      deviceId: options.deviceId,
+      audioConstraints: options.audioConstraints
+    };
+    this.externalContext = options.audioContext ?? null;
+    this.sharedContext = options.sharedContext ?? null;
+  }
+
+  /**
+   * Current engine state
+   */
+  public getState(): AudioVisualizerState {
+    return this.state;
+  }
+
+  /**
+   * Audio context in use, if one has been created yet
+   */
+  public get audioContext(): AudioContext | null {
+    return this.context;
+  }
+
+  /**
+   * Analyser fed by the current source
+   */
+  public get analyser(): AnalyserNode | null {
+    return this.analyserNode;
+  }
+
+  /**
+   * Decoded audio of the loaded file; null for other sources, including streamed URLs
+   */
+  public get audioBuffer(): AudioBuffer | null {
+    return this.buffer;
+  }
+
+  /**
+   * Playback position of the loaded file or media element in seconds
+   */
+  public get currentTime(): number {
+    if (this.mediaElement) {
+      return this.mediaElement.currentTime;
+    }
+
+    const buffer = this.buffer;
+    if (!buffer || !this.context) return 0;
+
+    if (this.state.status === 'ended') {
+      return buffer.duration;
+    }
+
+    if (!(this.source instanceof AudioBufferSourceNode)) {
+      return this.offset;
+    }
+
+    const elapsed = (this.context.currentTime - this.startedAt) * this.state.playbackRate;
+    const position = this.offset + elapsed;
+
+    if (this.state.loop) {
+      return position % buffer.duration;
+    }
+
+    return Math.min(position, buffer.duration);
+  }
+
+  /**
+   * Listen for engine events
+   */
+  public addEventListener<K extends keyof AudioVisualizerEventMap>(
+    type: K,
+    listener: AudioVisualizerEventListener<K>
+  ): void {
+    const listeners = (this.listeners[type] ?? new Set()) as Set<AudioVisualizerEventListener<K>>;
+    listeners.add(listener);
+    (this.listeners as Record<string, unknown>)[type] = listeners;
+  }
+
+  /**
+   * Stop listening for engine events
+   */
+  public removeEventListener<K extends keyof AudioVisualizerEventMap>(
+    type: K,
+    listener: AudioVisualizerEventListener<K>
+  ): void {
+    (this.listeners[type] as Set<AudioVisualizerEventListener<K>> | undefined)?.delete(listener);
+  }
+
+  /**
+   * Register a callback run on every animation frame with the latest audio data.
+   * The frame and its arrays are reused between calls, so copy anything you keep.
+   */
+  public subscribe(callback: AudioFrameCallback): () => void {
+    this.frameSubscribers.add(callback);
+    return () => {
+      this.frameSubscribers.delete(callback);
+    };
+  }
+
+  /**
+   * Update analyser options.
+   * Analyser settings apply to the running analysers, keeping the source connected;
+   * a new deviceId switches microphones while recording; channelCount applies on the next start.
+   */
+  public updateOptions(options: AudioAnalyserOptions): void {
+    const previousDeviceId = this.settings.deviceId;
+    const definedOptions = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as AudioAnalyserOptions;
+
+    this.settings = {
+      ...this.settings,
+      ...definedOptions,
+      deviceId: 'deviceId' in options ? options.deviceId : this.settings.deviceId,
+      audioConstraints: 'audioConstraints' in options ? options.audioConstraints : this.settings.audioConstraints
+    };
+
+    // Frame buffers follow the new bin count or format on the next animation frame
+    try {
+      [this.analyserNode, ...this.channelAnalysers].forEach(analyser => {
+        if (analyser) {
+          configureAnalyser(analyser, this.settings);
+        }
+      });
+    } catch (err: any) {
+      this.reportError(createAudioError('invalid-options', err.message || 'Invalid analyzer options', err));
+    }
+
+    if (this.settings.deviceId !== previousDeviceId) {
+      this.switchInputDevice(this.settings.deviceId);
+    }
+  }
+
+  /**
+   * Start recording from the microphone
+   */
+  public async start(): Promise<void> {
+    // Stop any current recording or file playback
+    this.stop();
+    const operation = this.operation;
+    this.lastOperation = () => this.start();
+
+    try {
+      const context = this.initializeAnalyzer();
+
+      // Resume audio context if it was suspended
+      await resumeAudioContext(context);
+
+      // Another call took over while the context was resuming
+      if (operation !== this.operation) return;
+
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        throw createMediaDevicesUnavailableError();
+      }
+
+      // Get user media stream
+      this.updateStatus('requesting-permission');
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: buildAudioConstraints(this.settings.deviceId, this.settings.audioConstraints)
+      });
+
+      // Another call took over while the permission prompt was open
+      if (operation !== this.operation) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      this.stream = stream;
+
+      // Create source node from mic stream
+      const source = context.createMediaStreamSource(stream);
+      this.source = source;
+
+      // Connect source to analyzer
+      this.connectToAnalysers(source);
+
+      // Start the animation loop
+      this.startAnimationLoop();
+
+      this.setState({ sourceType: 'microphone', isRecording: true, error: null });
+      this.updateStatus('recording');
+    } catch (err: any) {
+      if (operation !== this.operation) return;
+
+      this.reportError(fromMediaDevicesError(err));
+      this.setState({ isRecording: false });
+      this.updateStatus('error');
+    }
+  }
+
+  /**
+   * Switch the microphone while recording.
+   * The new stream is connected to the existing analyser before the old one is released,
+   * so analyser state and the animation loop carry on uninterrupted.
+   */
+  public async switchInputDevice(deviceId?: string): Promise<void> {
+    this.settings.deviceId = deviceId;
+
+    if (this.state.sourceType !== 'microphone' || !this.context) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: buildAudioConstraints(deviceId, this.settings.audioConstraints)
+      });
+
+      // Recording may have stopped while waiting for the new stream
+      if (this.state.sourceType !== 'microphone' || !this.context || !this.analyserNode) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      const source = this.context.createMediaStreamSource(stream);
+      this.connectToAnalysers(source);
+
+      // Release the previous microphone
+      if (this.source) {
+        this.source.disconnect();
+      }
+      if (this.stream) {
+        this.stream.getTracks().forEach(track => track.stop());
+      }
+
+      this.source = source;
+      this.stream = stream;
+      this.setState({ error: null });
+    } catch (err: any) {
+      this.reportError(fromMediaDevicesError(err));
+    }
+  }
+
+  /**
+   * Load and analyze an audio file
+   */
+  public async load(file: File): Promise<void> {
+    // Stop any current recording
+    this.stop();
+    const operation = this.operation;
+    this.lastOperation = () => this.load(file);
+
+    try {
+      this.updateStatus('loading');
+      const context = this.initializeAnalyzer();
+
+      // Resume audio context if it was suspended
+      await resumeAudioContext(context);
+
+      // Read file as array buffer
+      const arrayBuffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as ArrayBuffer);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(file);
+      });
+
+      if (operation !== this.operation) return;
+
+      // Decode audio data and keep it around for seeking
+      this.updateStatus('decoding');
+      const audioBuffer = await context.decodeAudioData(arrayBuffer)
+        .catch(err => {
+          throw fromDecodeError(err);
+        });
+
+      // Another call took over while decoding
+      if (operation !== this.operation) return;
+
+      this.startBufferPlayback(audioBuffer);
+
+      this.setState({ isPaused: false, isRecording: true, error: null });
+      this.updateStatus('playing');
+    } catch (err: any) {
+      if (operation !== this.operation) return;
+
+      this.reportError(isAudioError(err)
+        ? err
+        : createAudioError('unknown', err?.message || 'Failed to load audio file', err));
+      this.updateStatus('error');
+    }
+  }
+
+  /**
+   * Load and analyze audio from a URL.
+   * By default the whole file is downloaded and decoded so it can be seeked precisely;
+   * with `stream` it plays through a media element, which suits long or live sources.
+   */
+  public async loadUrl(url: string, urlOptions: LoadAudioUrlOptions = {}): Promise<void> {
+    const { signal, stream = false, crossOrigin = 'anonymous', onProgress } = urlOptions;
+
+    // Stop any current recording, playback or pending load
+    this.stop();
+    const operation = this.operation;
+    this.lastOperation = () => this.loadUrl(url, urlOptions);
+
+    const controller = new AbortController();
+    this.loadController = controller;
+    this.setState({ loadProgress: null });
+
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) {
+      controller.abort();
+    }
+
+    const reportProgress = (progress: LoadProgress) => {
+      if (controller.signal.aborted) return;
+      this.setState({ loadProgress: progress });
+      onProgress?.(progress);
+    };
+
+    try {
+      if (controller.signal.aborted) {
+        throw createAbortError();
+      }
+
+      this.updateStatus('loading');
+      const context = this.initializeAnalyzer();
+
+      // Resume audio context if it was suspended
+      await resumeAudioContext(context);
+
+      if (stream) {
+        const element = new Audio();
+        // Cross-origin audio reaches the analyser as silence unless CORS is used
+        element.crossOrigin = crossOrigin;
+        element.preload = 'auto';
+        element.src = url;
+
+        reportProgress({ phase: 'buffering', loaded: 0, total: null, progress: 0 });
+        await waitForMediaElement(element, controller.signal);
+
+        this.attachMediaElement(element, true);
+        element.loop = this.state.loop;
+        element.playbackRate = this.state.playbackRate;
+
+        await element.play();
+        this.startAnimationLoop();
+        reportProgress({ phase: 'done', loaded: 0, total: null, progress: 1 });
+      } else {
+        const arrayBuffer = await fetchAudioData(url, {
+          signal: controller.signal,
+          onProgress: reportProgress
+        });
+
+        const size = arrayBuffer.byteLength;
+        reportProgress({ phase: 'decoding', loaded: size, total: size, progress: 1 });
+        this.updateStatus('decoding');
+
+        const audioBuffer = await context.decodeAudioData(arrayBuffer)
+          .catch(err => {
+            throw fromDecodeError(err);
+          });
+
+        // The load may have been cancelled while decoding
+        if (controller.signal.aborted) {
+          throw createAbortError();
+        }
+
+        this.startBufferPlayback(audioBuffer);
+        reportProgress({ phase: 'done', loaded: size, total: size, progress: 1 });
+      }
+
+      this.setState({ isPaused: false, isRecording: true, error: null });
+      this.updateStatus('playing');
+    } catch (err: any) {
+      let audioError: AudioVisualizerError;
+
+      if (isAbortError(err)) {
+        audioError = isAudioError(err) ? err : createAbortError(err);
+      } else if (isAudioError(err)) {
+        audioError = err;
+      } else {
+        audioError = createAudioError('unknown', err?.message || 'Failed to load audio URL', err);
+      }
+
+      // A newer operation owns the state now
+      if (operation !== this.operation) {
+        throw audioError;
+      }
+
+      // Cancellation is requested by the caller, so it is not reported as an error
+      if (audioError.code === 'aborted') {
+        this.updateStatus('idle');
+      } else {
+        this.reportError(audioError);
+        this.updateStatus('error');
+      }
+
+      throw audioError;
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      if (this.loadController === controller) {
+        this.loadController = null;
+      }
+    }
+  }
+
+  /**
+   * Analyze an existing <audio> or <video> element.
+   * The element keeps playing through the speakers and is controlled by the caller.
+   */
+  public async connectMediaElement(element: HTMLMediaElement): Promise<void> {
+    // Stop any current recording or file playback
+    this.stop();
+    const operation = this.operation;
+    this.lastOperation = () => this.connectMediaElement(element);
+
+    try {
+      const context = this.initializeAnalyzer();
+
+      // Resume audio context if it was suspended
+      await resumeAudioContext(context);
+
+      if (operation !== this.operation) return;
+
+      this.attachMediaElement(element, false);
+
+      // Start the animation loop
+      this.startAnimationLoop();
+
+      this.setState({ isRecording: true, error: null });
+      this.updateStatus('connected');
+    } catch (err: any) {
+      if (operation !== this.operation) return;
+
+      let audioError: AudioVisualizerError;
+
+      if (isAudioError(err)) {
+        audioError = err;
+      } else if (err?.name === 'InvalidStateError') {
+        audioError = createAudioError(
+          'media-element-in-use',
+          'Media element is already connected to another audio context',
+          err
+        );
+      } else {
+        audioError = createAudioError('unknown', err?.message || 'Failed to connect media element', err);
+      }
+
+      this.reportError(audioError);
+      this.setState({ isRecording: false });
+      this.updateStatus('error');
+    }
+  }
+
+  /**
+   * Analyze an existing audio node.
+   * The node is only tapped; the caller stays responsible for its output.
+   */
+  public async connectNode(node: AudioNode): Promise<void> {
+    this.lastOperation = () => this.connectNode(node);
+
+    try {
+      // Stop any current recording or file playback
+      this.stop();
+
+      // Nodes can only connect within their own context, so adopt it
+      if (this.context !== node.context) {
+        this.releaseAudioContext();
+
+        this.context = node.context as AudioContext;
+        this.contextOwner = 'external';
+      }
+
+      this.initializeAnalyzer();
+
+      this.connectToAnalysers(node);
+      this.source = node;
+
+      // Start the animation loop
+      this.startAnimationLoop();
+
+      this.setState({ sourceType: 'node', isRecording: true, error: null });
+      this.updateStatus('connected');
+    } catch (err: any) {
+      this.reportError(isAudioError(err)
+        ? err
+        : createAudioError('unknown', err?.message || 'Failed to connect audio node', err));
+      this.setState({ isRecording: false });
+      this.updateStatus('error');
+    }
+  }
+
+  /**
+   * Stop the current recording or playback
+   */
+  public stop(): void {
+    // Abandon any operation still waiting on permission, reading or decoding
+    this.operation += 1;
+
+    // Cancel any pending URL load
+    if (this.loadController) {
+      this.loadController.abort();
+      this.loadController = null;
+    }
+
+    // Cancel animation frame
+    this.stopAnimationLoop();
+
+    // Stop file playback without triggering the end handler
+    this.stopBufferSource();
+
+    // Disconnect source from analyzer
+    if (this.source) {
+      const sourceType = this.state.sourceType;
+      const isExternal = (sourceType === 'mediaElement' && !this.ownsMediaElement) || sourceType === 'node';
+
+      if (isExternal) {
+        // Leave the rest of the caller's graph (and element output) intact
+        this.disconnectFromAnalysers(this.source);
+      } else {
+        this.source.disconnect();
+      }
+
+      this.source = null;
+    }
+
+    // Release elements created for streaming; connected elements belong to the caller
+    const element = this.mediaElement;
+    if (element) {
+      element.removeEventListener('durationchange', this.handleDurationChange);
+      element.removeEventListener('ended', this.handleMediaEnded);
+
+      if (this.ownsMediaElement) {
+        element.pause();
+        element.removeAttribute('src');
+        element.load();
+      }
+    }
+    this.mediaElement = null;
+    this.ownsMediaElement = false;
+
+    // Stop all tracks in the stream
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+
+    // Discard the loaded file
+    this.buffer = null;
+    this.offset = 0;
+
+    this.setState({ sourceType: null, duration: 0, isPaused: false, isRecording: false });
+    this.updateStatus('idle');
+  }
+
+  /**
+   * Pause playback of the loaded file or media element
+   */
+  public pause(): void {
+    const element = this.mediaElement;
+    if (element) {
+      element.pause();
+    } else {
+      if (!this.buffer || !(this.source instanceof AudioBufferSourceNode)) return;
+
+      const position = this.currentTime;
+      this.stopBufferSource();
+      this.offset = position;
+    }
+
+    this.stopAnimationLoop();
+    this.setState({ isPaused: true, isRecording: false });
+    this.updateStatus('paused');
+  }
+
+  /**
+   * Resume playback of the loaded file or media element from the current position
+   */
+  public async resume(): Promise<void> {
+    try {
+      const element = this.mediaElement;
+      if (element && this.context) {
+        await resumeAudioContext(this.context);
+        await element.play();
+      } else {
+        if (!this.buffer || !this.context) return;
+        if (this.source instanceof AudioBufferSourceNode) return;
+
+        await resumeAudioContext(this.context);
+        this.playBuffer(this.offset);
+      }
+
+      this.startAnimationLoop();
+      this.setState({ isPaused: false, isRecording: true });
+      this.updateStatus('playing');
+    } catch (err: any) {
+      this.reportError(isAudioError(err)
+        ? err
+        : createAudioError('unknown', err?.message || 'Failed to resume playback', err));
+    }
+  }
+
+  /**
+   * Seek to a position (seconds) in the loaded file or media element
+   */
+  public seek(seconds: number): void {
+    const element = this.mediaElement;
+    if (element) {
+      // Live streams report an infinite duration and may not be seekable
+      const end = Number.isFinite(element.duration) ? element.duration : Infinity;
+      element.currentTime = Math.min(Math.max(seconds, 0), end);
+      return;
+    }
+
+    const buffer = this.buffer;
+    if (!buffer) return;
+
+    const position = Math.min(Math.max(seconds, 0), buffer.duration);
+
+    if (this.source instanceof AudioBufferSourceNode) {
+      this.playBuffer(position);
+    } else {
+      this.offset = position;
+      if (this.state.status === 'ended') {
+        this.updateStatus('paused');
+      }
+    }
+  }
+
+  /**
+   * Change the playback speed of the loaded file or media element
+   */
+  public setPlaybackRate(rate: number): void {
+    if (rate <= 0) return;
+
+    if (this.mediaElement) {
+      this.mediaElement.playbackRate = rate;
+    }
+
+    const source = this.source;
+    if (source instanceof AudioBufferSourceNode && this.context) {
+      // Re-anchor the position so elapsed time is measured at the new rate
+      this.offset = this.currentTime;
+      this.startedAt = this.context.currentTime;
+      source.playbackRate.value = rate;
+    }
+
+    this.setState({ playbackRate: rate });
+  }
+
+  /**
+   * Enable or disable looping of the loaded file or media element
+   */
+  public setLoop(loop: boolean): void {
+    if (this.mediaElement) {
+      this.mediaElement.loop = loop;
+    }
+
+    const source = this.source;
+    if (source instanceof AudioBufferSourceNode && this.context) {
+      this.offset = this.currentTime;
+      this.startedAt = this.context.currentTime;
+      source.loop = loop;
+    }
+
+    this.setState({ loop });
+  }
+
+  /**
+   * Re-run the last start, load or connect call, e.g. after an error
+   */
+  public retry(): Promise<void> {
+    const operation = this.lastOperation;
+    return operation ? operation() : Promise.resolve();
+  }
+
+  /**
+   * Stop everything, release the audio context and drop all listeners and subscribers.
+   * A later start, load or connect call acquires a new context.
+   */
+  public dispose(): void {
+    this.stop();
+
+    if (this.analyserNode) {
+      this.analyserNode.disconnect();
+    }
+
+    // Closes the context, or hands it back to the shared pool
+    this.releaseAudioContext();
+
+    this.frameSubscribers.clear();
+    (Object.keys(this.listeners) as (keyof AudioVisualizerEventMap)[]).forEach(type => {
+      delete this.listeners[type];
+    });
+  }
+
+  /**
+   * Call the listeners of an event
+   */
+  private emit<K extends keyof AudioVisualizerEventMap>(type: K, event: AudioVisualizerEventMap[K]): void {
+    const listeners = this.listeners[type] as Set<AudioVisualizerEventListener<K>> | undefined;
+    listeners?.forEach(listener => listener(event));
+  }
+
+  /**
+   * Merge state changes and notify listeners if anything changed
+   */
+  private setState(changes: Partial<AudioVisualizerState>): void {
+    const keys = Object.keys(changes) as (keyof AudioVisualizerState)[];
+    if (keys.every(key => this.state[key] === changes[key])) return;
+
+    this.state = { ...this.state, ...changes };
+    this.emit('statechange', { state: this.state });
+  }
+
+  /**
+   * Move to a new lifecycle status
+   */
+  private updateStatus(status: VisualizerStatus): void {
+    const previous = this.state.status;
+    if (previous === status) return;
+
+    this.setState({ status });
+    this.emit('statuschange', { status, previous });
+  }
+
+  /**
+   * Store an error, attach a retry for the failed operation and notify listeners
+   */
+  private reportError(error: AudioVisualizerError): void {
+    const operation = this.lastOperation;
+    if (operation && !error.retry) {
+      error.retry = operation;
+    }
+
+    this.setState({ error });
+    this.emit('error', { error });
+  }
+
+  /**
+   * Get an audio context: the external one, one from the shared pool, or a new one
+   */
+  private acquireAudioContext(): AudioContext {
+    if (this.context) return this.context;
+
+    if (this.externalContext) {
+      this.context = this.externalContext;
+      this.contextOwner = 'external';
+    } else if (this.sharedContext) {
+      this.context = this.sharedContext.acquire();
+      this.contextOwner = 'shared';
+    } else {
+      this.context = createAudioContext();
+      this.contextOwner = 'self';
+    }
+
+    return this.context;
+  }
+
+  /**
+   * Let go of the audio context: close it if the engine created it,
+   * hand it back to the shared pool, or leave it to its external owner
+   */
+  private releaseAudioContext(): void {
+    const context = this.context;
+    if (!context) return;
+
+    if (this.contextOwner === 'shared' && this.sharedContext) {
+      this.sharedContext.release(context);
+    } else if (this.contextOwner === 'self') {
+      context.close();
+    }
+
+    this.context = null;
+    this.analyserNode = null;
+    this.splitter = null;
+    this.channelAnalysers = [];
+  }
+
+  /**
+   * Initialize the audio analyzer with the current options
+   */
+  private initializeAnalyzer(): AudioContext {
+    try {
+      const context = this.acquireAudioContext();
+
+      if (this.analyserNode) {
+        this.analyserNode.disconnect();
+      }
+
+      if (this.splitter) {
+        this.splitter.disconnect();
+        this.splitter = null;
+      }
+      this.channelAnalysers = [];
+
+      const createConfiguredAnalyser = (): AnalyserNode => {
+        const analyser = context.createAnalyser();
+        configureAnalyser(analyser, this.settings);
+        return analyser;
+      };
+
+      this.analyserNode = createConfiguredAnalyser();
+
+      // The main analyser sees the downmix; a splitter feeds one analyser per channel
+      const { channelCount } = this.settings;
+      if (channelCount > 1) {
+        const splitter = context.createChannelSplitter(channelCount);
+        for (let channel = 0; channel < channelCount; channel++) {
+          const channelAnalyser = createConfiguredAnalyser();
+          splitter.connect(channelAnalyser, channel);
+          this.channelAnalysers.push(channelAnalyser);
+        }
+        this.splitter = splitter;
+      }
+
+      return context;
+    } catch (err: any) {
+      if (err?.name === 'IndexSizeError') {
+        throw createAudioError('invalid-options', err.message || 'Invalid analyzer options', err);
+      }
+      throw createAudioError('unsupported-browser', 'Failed to initialize audio analyzer', err);
+    }
+  }
+
+  /**
+   * Feed a source into the analyser (and channel splitter, if any)
+   */
+  private connectToAnalysers(source: AudioNode): void {
+    if (!this.analyserNode) return;
+
+    source.connect(this.analyserNode);
+    if (this.splitter) {
+      source.connect(this.splitter);
+    }
+  }
+
+  /**
+   * Disconnect a source from the analysers only, leaving its other connections intact
+   */
+  private disconnectFromAnalysers(source: AudioNode): void {
+    [this.analyserNode, this.splitter].forEach(target => {
+      if (!target) return;
+      try {
+        source.disconnect(target);
+      } catch (err) {
+        // Source was not connected to this node
+      }
+    });
+  }
+
+  /**
+   * Route a media element through the analysers and on to the speakers
+   */
+  private attachMediaElement(element: HTMLMediaElement, owned: boolean): void {
+    const context = this.context as AudioContext;
+
+    // Reuses the node if this element was connected before
+    const source = getMediaElementSource(context, element);
+
+    // Wrapping an element reroutes its output, so send it on to the speakers
+    this.connectToAnalysers(source);
+    source.connect(context.destination);
+
+    this.source = source;
+    this.mediaElement = element;
+    this.ownsMediaElement = owned;
+
+    element.addEventListener('durationchange', this.handleDurationChange);
+    if (owned) {
+      element.addEventListener('ended', this.handleMediaEnded);
+    }
+
+    this.setState({ sourceType: 'mediaElement' });
+    this.handleDurationChange();
+  }
+
+  private handleDurationChange = (): void => {
+    const element = this.mediaElement;
+    if (element) {
+      this.setState({ duration: Number.isNaN(element.duration) ? 0 : element.duration });
+    }
+  };
+
+  private handleMediaEnded = (): void => {
+    this.stopAnimationLoop();
+    this.setState({ isRecording: false, isPaused: false });
+    this.updateStatus('ended');
+    this.emit('ended', { currentTime: this.currentTime });
+  };
+
+  /**
+   * Play a decoded buffer from the start, keeping it around for seeking
+   */
+  private startBufferPlayback(audioBuffer: AudioBuffer): void {
+    this.buffer = audioBuffer;
+    this.setState({ duration: audioBuffer.duration });
+
+    // Start playback
+    this.playBuffer(0);
+
+    // Start the animation loop
+    this.startAnimationLoop();
+  }
+
+  /**
+   * Play the loaded buffer from the given offset (seconds).
+   * A buffer source can only be started once, so a new node is created each time.
+   */
+  private playBuffer(offset: number): void {
+    const buffer = this.buffer;
+    const context = this.context;
+    if (!buffer || !context || !this.analyserNode) return;
+
+    this.stopBufferSource();
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = this.state.loop;
+    source.playbackRate.value = this.state.playbackRate;
+    this.source = source;
+
+    // Connect source to analyzer and speakers
+    this.connectToAnalysers(source);
+    source.connect(context.destination);
+
+    this.offset = offset;
+    this.startedAt = context.currentTime;
+    source.start(0, offset);
+    this.setState({ sourceType: 'file' });
+
+    // When playback reaches the end, rewind so that resume() plays again
+    source.onended = () => {
+      source.disconnect();
+      this.source = null;
+      this.offset = 0;
+      this.stopAnimationLoop();
+      this.setState({ isRecording: false, isPaused: false });
+      this.updateStatus('ended');
+      this.emit('ended', { currentTime: buffer.duration });
+    };
+  }
+
+  /**
+   * Stop and disconnect the current buffer source without firing its end handler
+   */
+  private stopBufferSource(): void {
+    const source = this.source;
+    if (!(source instanceof AudioBufferSourceNode)) return;
+
+    source.onended = null;
+    try {
+      source.stop();
+    } catch (err) {
+      // Source was never started or has already stopped
+    }
+    source.disconnect();
+    this.source = null;
+  }
+
+  /**
+   * Start the animation loop unless it is already running
+   */
+  private startAnimationLoop(): void {
+    if (this.animationFrame === null) {
+      this.updateAudioData();
+    }
+  }
+
+  /**
+   * Stop the animation loop
+   */
+  private stopAnimationLoop(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  /**
+   * Read the analysers into the frame buffers and hand the frame to subscribers
+   */
+  private updateAudioData = (): void => {
+    const analyser = this.analyserNode;
+    const audioContext = this.context;
+    if (!analyser || !audioContext) return;
+
+    const bufferLength = analyser.frequencyBinCount;
+    const fftSize = analyser.fftSize;
+    const format = this.settings.dataFormat;
+    const channelAnalysers = this.channelAnalysers;
+
+    // Reuse the frame buffers until the analyser or data format changes
+    let frame = this.frame;
+    if (
+      !frame ||
+      frame.analyser !== analyser ||
+      frame.bufferLength !== bufferLength ||
+      frame.dataFormat !== format ||
+      (frame.channels?.length ?? 0) !== channelAnalysers.length
+    ) {
+      // Time data holds the whole fftSize window, so pitch and onset analysis see every sample
+      const ArrayType = format === 'float' ? Float32Array : Uint8Array;
+      frame = {
+        frequencyData: new ArrayType(bufferLength),
+        timeData: new ArrayType(fftSize),
+        audioContext,
+        analyser,
+        bufferLength,
+        dataFormat: format
+      };
+      if (channelAnalysers.length > 0) {
+        frame.channels = channelAnalysers.map(() => ({
+          frequencyData: new ArrayType(bufferLength),
+          timeData: new ArrayType(fftSize)
+        }));
+      }
+      this.frame = frame;
+    }
+
+    readAnalyser(analyser, frame);
+    frame.channels?.forEach((channel, index) => {
+      readAnalyser(channelAnalysers[index], channel);
+    });
+    frame.source = this.source || undefined;
+    frame.sourceType = (this.state.sourceType as AudioSourceType | null) || undefined;
+    frame.time = audioContext.currentTime;
+
+    // Subscribers get every frame
+    const currentFrame = frame;
+    this.frameSubscribers.forEach(callback => callback(currentFrame));
+
+    this.animationFrame = requestAnimationFrame(this.updateAudioData);
+  };
+}
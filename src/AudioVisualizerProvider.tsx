@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AudioVisualizerProviderProps, SharedAudioContext } from './types';
+import { createAudioContext } from './utils/audioSources';
+
+const AudioVisualizerContext = createContext<SharedAudioContext | null>(null);
+
+/**
+ * Provider sharing one AudioContext between all visualizer hooks below it
+ * 
+ * Hooks inside the provider create their sources and analysers on the shared
+ * context, so they can connect the same media element or each other's nodes.
+ * The context is created on first use and closed once the last consumer
+ * releases it. A context passed in through props is never closed.
+ */
+export const AudioVisualizerProvider: React.FC<AudioVisualizerProviderProps> = ({
+  audioContext,
+  children
+}) => {
+  const contextRef = useRef<AudioContext | null>(null);
+  const consumersRef = useRef<number>(0);
+
+  const value = useMemo<SharedAudioContext>(() => ({
+    acquire: () => {
+      if (audioContext) {
+        consumersRef.current += 1;
+        return audioContext;
+      }
+
+      if (!contextRef.current || contextRef.current.state === 'closed') {
+        contextRef.current = createAudioContext();
+      }
+
+      consumersRef.current += 1;
+      return contextRef.current;
+    },
+    release: (context: AudioContext) => {
+      consumersRef.current = Math.max(consumersRef.current - 1, 0);
+
+      // Only close contexts created here, and only once nobody uses them
+      if (consumersRef.current === 0 && context === contextRef.current) {
+        contextRef.current.close();
+        contextRef.current = null;
+      }
+    }
+  }), [audioContext]);
+
+  return (
+    <AudioVisualizerContext.Provider value={value}>
+      {children}
+    </AudioVisualizerContext.Provider>
+  );
+};
+
+/**
+ * Get the shared audio context pool, or null outside a provider
+ */
+export const useAudioVisualizerContext = (): SharedAudioContext | null =>
+  useContext(AudioVisualizerContext);
+
+/**
+ * Hook returning the provider's AudioContext, e.g. to build nodes for connectNode
+ * 
+ * @returns The shared AudioContext, or null outside a provider or before it is ready
+ */
+export const useSharedAudioContext = (): AudioContext | null => {
+  const shared = useAudioVisualizerContext();
+  const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
+
+  useEffect(() => {
+    if (!shared) return;
+
+    const context = shared.acquire();
+    setAudioContext(context);
+
+    return () => {
+      shared.release(context);
+      setAudioContext(null);
+    };
+  }, [shared]);
+
+  return audioContext;
+};
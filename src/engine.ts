@@ -0,0 +1,112 @@
+// Framework-agnostic entry point: everything here works without React
+
+// Engine
+export { AudioVisualizerEngine } from './AudioVisualizerEngine';
+
+// Utility functions
+export {
+  processAudioData,
+  createAudioProcessor,
+  extractFrequencyBands,
+  calculateSpectrumCharacteristics,
+  calculateStereoMetrics
+} from './utils/audioProcessor';
+
+export {
+  BeatDetector,
+  TempoAnalyzer,
+  createBeatAnalyzer,
+  MultiBandBeatDetector,
+  DEFAULT_BEAT_BANDS,
+  createOnsetDetector
+} from './utils/beatDetection';
+
+export { analyzeAudioBuffer } from './utils/offlineAnalysis';
+
+export { analyzeBeats, analyzeBeatsAsync, getBeatPosition } from './utils/beatMap';
+
+export { LoudnessMeter } from './utils/loudness';
+
+export { PitchDetector, frequencyToNote, noteToFrequency } from './utils/pitch';
+
+export { VoiceActivityDetector } from './utils/voiceActivity';
+
+export { NoveltyOnsetDetector } from './utils/onsetDetection';
+
+export { FeatureExtractor } from './utils/audioFeatures';
+
+export {
+  createFrequencyBands,
+  aggregateFrequencyBands,
+  hzToMel,
+  melToHz
+} from './utils/frequencyBands';
+
+export {
+  FFTAnalyser,
+  fft,
+  createWindow
+} from './utils/fft';
+
+// Type definitions
+export type {
+  AudioSourceType,
+  DataFormat,
+  FrequencyDataType,
+  TimeDataType,
+  AudioAnalyserOptions,
+  AudioVisualizerEngineOptions,
+  AudioVisualizerState,
+  AudioVisualizerEventMap,
+  AudioVisualizerEventListener,
+  VisualizerStatus,
+  AudioData,
+  AudioChannelData,
+  AnalysisFrame,
+  AudioFrameInput,
+  WindowFunction,
+  FFTAnalyserOptions,
+  AudioFrameCallback,
+  VisualizerProcessedData,
+  StereoMetrics,
+  DataProcessorOptions,
+  FrequencyBand,
+  BandAggregation,
+  FrequencyBandPreset,
+  FrequencyBandOptions,
+  AudioVisualizerError,
+  AudioErrorCode,
+  LoadProgress,
+  LoadAudioUrlOptions,
+  SharedAudioContext,
+  LoudnessMeterOptions,
+  LoudnessReading,
+  TempoAnalyzerOptions,
+  TempoEstimate,
+  OnsetMethod,
+  OnsetDetectorOptions,
+  OnsetInfo,
+  OnsetDetector,
+  BeatBandOptions,
+  BeatBandInfo,
+  PitchDetectorOptions,
+  NoteInfo,
+  PitchInfo,
+  VoiceActivityDetectorOptions,
+  VoiceActivityInfo,
+  AudioFeatureName,
+  FeatureExtractorOptions,
+  AudioFeatures,
+  AudioBufferLike,
+  AudioBufferAnalysisOptions,
+  AudioBufferAnalysis,
+  AudioBufferFrame,
+  WaveformPeaks,
+  Spectrogram,
+  BeatMapOptions,
+  BeatMapBeat,
+  TempoChange,
+  BeatMapSection,
+  BeatMap,
+  BeatMapPosition
+} from './types';
@@ -2,29 +2,138 @@
 export { useAudioVisualizer } from './useAudioVisualizer';
 export { useProcessedAudioData } from './useProcessedAudioData';
 export { useBeatDetection } from './useBeatDetection';
+export { useAudioInputDevices } from './useAudioInputDevices';
+export { useAudioFrame } from './useAudioFrame';
+export { useLoudness } from './useLoudness';
+export { usePitch } from './usePitch';
+export { useVoiceActivity } from './useVoiceActivity';
+export { useAudioFeatures } from './useAudioFeatures';
+export { useBeatMap } from './useBeatMap';
+
+// Framework-agnostic engine (also available React-free from the /engine entry point)
+export { AudioVisualizerEngine } from './AudioVisualizerEngine';
+
+// Shared audio context
+export {
+  AudioVisualizerProvider,
+  useSharedAudioContext
+} from './AudioVisualizerProvider';
 
 // Utility functions
 export { 
   processAudioData,
+  createAudioProcessor,
   extractFrequencyBands,
-  calculateSpectrumCharacteristics
+  calculateSpectrumCharacteristics,
+  calculateStereoMetrics
 } from './utils/audioProcessor';
 
 export {
   BeatDetector,
   TempoAnalyzer,
-  createBeatAnalyzer
+  createBeatAnalyzer,
+  MultiBandBeatDetector,
+  DEFAULT_BEAT_BANDS,
+  createOnsetDetector
 } from './utils/beatDetection';
 
+export { analyzeAudioBuffer } from './utils/offlineAnalysis';
+
+export { analyzeBeats, analyzeBeatsAsync, getBeatPosition } from './utils/beatMap';
+
+export { LoudnessMeter } from './utils/loudness';
+
+export { PitchDetector, frequencyToNote, noteToFrequency } from './utils/pitch';
+
+export { VoiceActivityDetector } from './utils/voiceActivity';
+
+export { NoveltyOnsetDetector } from './utils/onsetDetection';
+
+export { FeatureExtractor } from './utils/audioFeatures';
+
+export {
+  createFrequencyBands,
+  aggregateFrequencyBands,
+  hzToMel,
+  melToHz
+} from './utils/frequencyBands';
+
+export {
+  FFTAnalyser,
+  fft,
+  createWindow
+} from './utils/fft';
+
 // Type definitions
 export type {
   AudioSourceType,
+  DataFormat,
   FrequencyDataType,
   TimeDataType,
+  AudioAnalyserOptions,
   AudioVisualizerOptions,
+  AudioVisualizerEngineOptions,
+  AudioVisualizerState,
+  AudioVisualizerEventMap,
+  AudioVisualizerEventListener,
+  VisualizerStatus,
   AudioData,
+  AudioChannelData,
+  AnalysisFrame,
+  AudioFrameInput,
+  WindowFunction,
+  FFTAnalyserOptions,
+  AudioFrameCallback,
   VisualizerHookReturn,
   VisualizerProcessedData,
+  StereoMetrics,
   DataProcessorOptions,
-  AudioVisualizerError
+  FrequencyBand,
+  BandAggregation,
+  FrequencyBandPreset,
+  FrequencyBandOptions,
+  AudioVisualizerError,
+  AudioErrorCode,
+  LoadProgress,
+  LoadAudioUrlOptions,
+  AudioInputDevicesReturn,
+  AudioVisualizerProviderProps,
+  SharedAudioContext,
+  LoudnessMeterOptions,
+  LoudnessReading,
+  LoudnessOptions,
+  LoudnessHookReturn,
+  TempoAnalyzerOptions,
+  TempoEstimate,
+  OnsetMethod,
+  OnsetDetectorOptions,
+  OnsetInfo,
+  OnsetDetector,
+  BeatBandOptions,
+  BeatBandInfo,
+  PitchDetectorOptions,
+  NoteInfo,
+  PitchInfo,
+  PitchHookReturn,
+  VoiceActivityDetectorOptions,
+  VoiceActivityInfo,
+  SpeechEvent,
+  VoiceActivityOptions,
+  VoiceActivityHookReturn,
+  AudioFeatureName,
+  FeatureExtractorOptions,
+  AudioFeatures,
+  AudioBufferLike,
+  AudioBufferAnalysisOptions,
+  AudioBufferAnalysis,
+  AudioBufferFrame,
+  WaveformPeaks,
+  Spectrogram,
+  BeatMapOptions,
+  BeatMapBeat,
+  TempoChange,
+  BeatMapSection,
+  BeatMap,
+  BeatMapPosition,
+  BeatMapHookReturn
 } from './types'; 
\ No newline at end of file
@@ -1,35 +1,195 @@
-export type AudioSourceType = 'microphone' | 'file';
+import type { ReactNode } from 'react';
 
-export type FrequencyDataType = Uint8Array;
-export type TimeDataType = Uint8Array;
+export type AudioSourceType = 'microphone' | 'file' | 'mediaElement' | 'node';
 
-export interface AudioVisualizerOptions {
+// 'byte': 0-255 values scaled to the decibel range; 'float': dBFS frequencies and -1 to 1 samples
+export type DataFormat = 'byte' | 'float';
+
+export type FrequencyDataType = Uint8Array | Float32Array;
+export type TimeDataType = Uint8Array | Float32Array;
+
+/**
+ * Lifecycle status of AudioVisualizerEngine and useAudioVisualizer
+ *
+ * idle -> requesting-permission -> recording            (startRecording)
+ * idle -> loading -> decoding -> playing                (loadAudioFile, loadAudioUrl)
+ * idle -> loading -> playing                            (loadAudioUrl with stream)
+ * idle -> connected                                     (connectMediaElement, connectNode)
+ * playing | connected -> paused -> playing              (pause, resume)
+ * playing -> ended -> playing                           (end of file, resume)
+ * any pending status -> error                           (failed start)
+ * any status -> idle                                    (stopRecording, or a cancelled load)
+ *
+ * Every start call first stops what is running, so a later call always wins
+ * over one still waiting on a permission prompt, download or decode.
+ */
+export type VisualizerStatus =
+  | 'idle'
+  | 'requesting-permission'
+  | 'recording'
+  | 'loading'
+  | 'decoding'
+  | 'playing'
+  | 'paused'
+  | 'ended'
+  | 'connected'
+  | 'error';
+
+export interface AudioAnalyserOptions {
   fftSize?: number;         // Size of FFT (Fast Fourier Transform)
   smoothingTimeConstant?: number; // Smoothing time constant for analyzer
   minDecibels?: number;     // Minimum decibel value
   maxDecibels?: number;     // Maximum decibel value
+  deviceId?: string;        // Microphone to record from (changing it while recording switches devices)
+  audioConstraints?: MediaTrackConstraints; // Overrides the default microphone constraints
+  dataFormat?: DataFormat;  // Representation of frequency and time data (default: 'byte')
+  channelCount?: number;    // Analyse this many channels separately, e.g. 2 for stereo (default: 1, off)
 }
 
-export interface AudioData {
+export interface AudioVisualizerOptions extends AudioAnalyserOptions {
+  updateRate?: number;      // Max audioData state updates per second (default: every frame, 0: never)
+  onStatusChange?: (status: VisualizerStatus, previous: VisualizerStatus) => void;
+  onEnded?: () => void;     // Called when a loaded file or stream plays to the end
+  onError?: (error: AudioVisualizerError) => void; // Called whenever an error is reported
+}
+
+export interface AudioVisualizerEngineOptions extends AudioAnalyserOptions {
+  audioContext?: AudioContext;        // Context to use instead of creating one (never closed by the engine)
+  sharedContext?: SharedAudioContext; // Pool to acquire the context from, e.g. an AudioVisualizerProvider
+}
+
+export interface LoadProgress {
+  phase: 'downloading' | 'decoding' | 'buffering' | 'done'; // Current loading step
+  loaded: number;           // Bytes downloaded so far
+  total: number | null;     // Total bytes, if the server reported it
+  progress: number;         // Download progress (0-1), 0 when the total is unknown
+}
+
+export interface LoadAudioUrlOptions {
+  signal?: AbortSignal;     // Signal to cancel loading
+  stream?: boolean;         // Play through a media element instead of decoding up front
+  crossOrigin?: string | null; // crossOrigin for the streaming element (default: 'anonymous')
+  onProgress?: (progress: LoadProgress) => void; // Called whenever progress changes
+}
+
+export interface AudioChannelData {
   frequencyData: FrequencyDataType;
   timeData: TimeDataType;
+}
+
+export interface AudioData {
+  frequencyData: FrequencyDataType; // bufferLength (fftSize / 2) bins
+  timeData: TimeDataType;   // The latest fftSize samples
   audioContext: AudioContext;
   analyser: AnalyserNode;
   bufferLength: number;
-  source?: AudioBufferSourceNode | MediaStreamAudioSourceNode;
+  dataFormat?: DataFormat;  // Representation of frequencyData and timeData (default: 'byte')
+  channels?: AudioChannelData[]; // Per-channel data when channelCount > 1
+  source?: AudioNode;       // Node currently feeding the analyser
+  sourceType?: AudioSourceType;
+  time?: number;            // Audio clock time the frame was read, in seconds
 }
 
+// Frame data without Web Audio objects, e.g. from FFTAnalyser in a worker, Node or tests
+export interface AnalysisFrame {
+  frequencyData: FrequencyDataType;
+  timeData: TimeDataType;
+  sampleRate: number;
+  bufferLength?: number;    // Number of frequency bins (default: frequencyData.length)
+  minDecibels?: number;     // Decibel value byte data is scaled from (default: -100)
+  maxDecibels?: number;     // Decibel value byte data is scaled to (default: -30)
+  channels?: AudioChannelData[];
+  time?: number;            // Time of the frame in seconds, e.g. its position in a file (default: when analysed)
+}
+
+// Anything the analysis functions accept: a live frame or a plain one
+export type AudioFrameInput = AudioData | AnalysisFrame;
+
+export type WindowFunction = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+export interface FFTAnalyserOptions {
+  sampleRate: number;
+  fftSize?: number;           // Samples per transform, a power of two (default: 2048)
+  window?: WindowFunction;    // Window applied before the FFT (default: 'blackman', as AnalyserNode)
+  smoothingTimeConstant?: number; // Averaging with the previous frame, 0-1 (default: 0.8)
+  minDecibels?: number;       // Decibel value mapped to byte 0 (default: -100)
+  maxDecibels?: number;       // Decibel value mapped to byte 255 (default: -30)
+}
+
+// Receives the reused frame; copy the arrays to keep them past the callback
+export type AudioFrameCallback = (frame: AudioData) => void;
+
+export interface AudioVisualizerState {
+  status: VisualizerStatus;
+  isRecording: boolean;
+  isPaused: boolean;
+  sourceType: AudioSourceType | null;
+  error: AudioVisualizerError | null;
+  duration: number;                   // Duration of the loaded file in seconds
+  playbackRate: number;
+  loop: boolean;
+  loadProgress: LoadProgress | null;
+}
+
+export interface AudioVisualizerEventMap {
+  statechange: { state: AudioVisualizerState };  // Any field of the engine state changed
+  statuschange: { status: VisualizerStatus; previous: VisualizerStatus };
+  error: { error: AudioVisualizerError };
+  ended: { currentTime: number };                // A loaded file or stream played to the end
+}
+
+export type AudioVisualizerEventListener<K extends keyof AudioVisualizerEventMap> = (
+  event: AudioVisualizerEventMap[K]
+) => void;
+
 export interface VisualizerHookReturn {
   audioData: AudioData | null;
   isRecording: boolean;
-  error: Error | null;
+  status: VisualizerStatus;           // Lifecycle status
+  sourceType: AudioSourceType | null; // Type of the connected source, if any
+  error: AudioVisualizerError | null;
+  retry: () => Promise<void>;         // Re-run the last start, load or connect call
+  subscribe: (callback: AudioFrameCallback) => () => void; // Per-frame callback outside React state
   startRecording: () => Promise<void>;
   stopRecording: () => void;
   loadAudioFile: (file: File) => Promise<void>;
+  loadAudioUrl: (url: string, options?: LoadAudioUrlOptions) => Promise<void>; // Fetch, or stream, audio from a URL
+  loadProgress: LoadProgress | null;  // Progress of the current URL load
+  switchInputDevice: (deviceId?: string) => Promise<void>; // Swap microphones without stopping the analyser
+  connectMediaElement: (element: HTMLMediaElement) => Promise<void>; // Analyze an <audio>/<video> element
+  connectNode: (node: AudioNode) => Promise<void>; // Analyze an existing node in the same context
+  pause: () => void;                  // Pause file playback, keeping the position
+  resume: () => Promise<void>;        // Resume file playback from the paused position
+  seek: (seconds: number) => void;    // Jump to a position in the loaded file
+  setPlaybackRate: (rate: number) => void; // Change playback speed (1 = normal)
+  setLoop: (loop: boolean) => void;   // Enable or disable looping of the loaded file
+  isPaused: boolean;                  // Whether file playback is paused
+  currentTime: number;                // Playback position in seconds
+  duration: number;                   // Duration of the loaded file in seconds
+  audioBuffer: AudioBuffer | null;    // Decoded audio of the loaded file, e.g. for useBeatMap
+  playbackRate: number;               // Current playback speed
+  loop: boolean;                      // Whether the loaded file loops
+}
+
+export interface SharedAudioContext {
+  acquire: () => AudioContext;              // Get the shared context, counting the caller as a consumer
+  release: (context: AudioContext) => void; // Stop using the context; the last release closes it
+}
+
+export interface AudioVisualizerProviderProps {
+  audioContext?: AudioContext; // Externally created context to share (never closed by the provider)
+  children?: ReactNode;
+}
+
+export interface AudioInputDevicesReturn {
+  devices: MediaDeviceInfo[];  // Available audio inputs
+  error: Error | null;
+  refresh: () => Promise<void>; // Re-read the device list (labels appear once permission is granted)
 }
 
 export interface VisualizerProcessedData {
   frequencyData: number[];    // Processed frequency data (normalized if requested)
+  frequencies: number[];      // Frequency in Hz of each frequencyData point
   timeData: number[];         // Processed time data (normalized if requested)
   volume: number;             // Current volume level (0-1)
   peakLevel: number;          // Peak volume level detected
@@ -39,15 +199,371 @@ export interface VisualizerProcessedData {
     amplitude: number;        // Amplitude of dominant frequency
     index: number;            // Index of dominant frequency in the array
   };
+  stereo?: StereoMetrics;     // Stereo metrics when at least two channels are analysed
+  bands?: number[];           // Level (0-1) of each frequency band, when frequencyBands is set
+  bandFrequencies?: FrequencyBand[]; // Edges and centre of each band in Hz
+}
+
+export interface StereoMetrics {
+  balance: number;            // Left/right balance (-1 = left only, 1 = right only)
+  correlation: number;        // Inter-channel correlation (-1 = out of phase, 1 = mono)
+  goniometer: [number, number][]; // Vectorscope points as [side, mid] pairs (-1 to 1)
+}
+
+export interface FrequencyBand {
+  low: number;                // Lower edge in Hz
+  center: number;             // Centre frequency in Hz, e.g. for labels
+  high: number;               // Upper edge in Hz
+}
+
+// How bins within a band are combined: RMS energy, loudest bin, or mean magnitude
+export type BandAggregation = 'rms' | 'peak' | 'mean';
+
+export type FrequencyScale = 'linear' | 'log' | 'mel';
+
+export type FrequencyBandPreset = 'octave' | 'third-octave' | 'mel' | 'bark' | 'log';
+
+export interface FrequencyBandOptions {
+  minFrequency?: number;      // Lowest frequency covered in Hz (default: 20)
+  maxFrequency?: number;      // Highest frequency covered in Hz (default: 20000)
+  count?: number;             // Number of bands for 'mel' and 'log' (default: 32)
 }
 
 export interface DataProcessorOptions {
   normalize?: boolean;        // Whether to normalize data to 0-1 range
   logarithmic?: boolean;      // Whether to use logarithmic scaling
   smoothing?: number;         // Smoothing factor for transitions (0-1)
-  frequencyBands?: number[];  // Custom frequency bands for analysis
+  frequencyScale?: FrequencyScale; // Spacing of the frequencyData points (default: 'linear', the FFT bins)
+  minFrequency?: number;      // Lowest frequency in frequencyData in Hz (default: 0, or 20 for 'log' and 'mel')
+  maxFrequency?: number;      // Highest frequency in frequencyData in Hz (default: Nyquist)
+  barCount?: number;          // Number of frequencyData points (default: bins in the range)
+  frequencyBands?: number[] | FrequencyBand[] | FrequencyBandPreset; // Centre frequencies, bands or a preset
+  bandAggregation?: BandAggregation; // How bins within a band are combined (default: 'rms')
+}
+
+export interface LoudnessMeterOptions {
+  sampleRate: number;
+  channelWeights?: number[];  // BS.1770 weight per channel (default: 1, or 1.41 for 5.1 surrounds and 0 for LFE)
+  rmsWindow?: number;         // RMS integration time in seconds (default: 0.3)
+  peakHold?: number;          // Seconds peaks are held before decaying (default: 1.5)
+  peakDecay?: number;         // Peak fall-back rate in dB per second after the hold (default: 20)
+  truePeakOversampling?: number; // Oversampling factor for true peak (default: 4, 1 for sample peak only)
+}
+
+export interface LoudnessReading {
+  rms: number;                // RMS level in dBFS over rmsWindow (a full-scale sine reads -3)
+  peak: number;               // Sample peak in dBFS, with hold and decay
+  truePeak: number;           // Oversampled peak in dBTP, with hold and decay
+  maxTruePeak: number;        // Highest true peak since the last reset in dBTP
+  momentary: number;          // K-weighted loudness over 400 ms in LUFS
+  shortTerm: number;          // K-weighted loudness over 3 s in LUFS
+  integrated: number;         // Gated loudness since the last reset in LUFS
+}
+
+export interface LoudnessOptions extends Omit<LoudnessMeterOptions, 'sampleRate'> {
+  updateRate?: number;        // Max state updates per second (default: every frame)
+}
+
+export interface LoudnessHookReturn extends LoudnessReading {
+  reset: () => void;          // Restart integrated loudness, max true peak and peak hold
+}
+
+// Built-in onset detection functions
+export type OnsetMethod = 'energy' | 'spectral-flux' | 'hfc' | 'complex';
+
+export interface OnsetDetectorOptions {
+  threshold?: number;         // Detection threshold (0-1)
+  decayRate?: number;         // Energy decay rate per 1/60 s ('energy' only)
+  historyWindow?: number;     // Seconds of energy averaged ('energy' only, default: 1)
+  minTimeBetweenBeats?: number; // Minimum time between onsets (ms)
+  frequencyRange?: {          // Frequency range searched for onsets
+    low: number;              // Low frequency (Hz)
+    high: number;             // High frequency (Hz)
+  };
+  multiplier?: number;        // Weight of the moving median in the adaptive threshold (default: 1.5)
+  medianWindow?: number;      // Seconds covered by the moving median (default: 0.5)
+}
+
+export interface OnsetInfo {
+  isBeat: boolean;            // Whether an onset was detected on this frame
+  energy: number;             // Onset strength: band energy, or the normalized detection function (0-1)
+  averageEnergy: number;      // Level the strength is compared against
+  delta: number;              // How far the strength is above that level
+  time: number;               // Time of the frame in seconds on the audio clock
 }
 
+// Strategy used by createBeatAnalyzer and useBeatDetection to find onsets
+export interface OnsetDetector {
+  detect(audioData: AudioFrameInput | null): OnsetInfo;
+  reset(): void;
+  updateOptions?(options: Partial<OnsetDetectorOptions>): void;
+}
+
+export interface TempoAnalyzerOptions {
+  minTempo?: number;          // Slowest tempo considered in BPM (default: 60)
+  maxTempo?: number;          // Fastest tempo considered in BPM (default: 180)
+  preferredTempo?: number;    // Tempo favoured between half and double time in BPM (default: 120)
+  tempoWindow?: number;       // Seconds of beats the tempo is estimated from (default: 8)
+}
+
+export interface TempoEstimate {
+  tempo: number;              // Estimated tempo in BPM, 0 until there are two beats
+  confidence: number;         // How consistently the beats agree with the tempo (0-1)
+  phase: number;              // Position within the current beat (0 on the beat, towards 1 before the next)
+  nextBeatTime: number | null; // Predicted time of the next beat in seconds, null without a tempo
+}
+
+export interface BeatBandOptions {
+  frequencyRange: {           // Frequency range of the band
+    low: number;              // Low frequency (Hz)
+    high: number;             // High frequency (Hz)
+  };
+  threshold?: number;         // Detection threshold (0-1, default: 0.15)
+  decayRate?: number;         // Energy decay rate per 1/60 s (default: 0.98)
+  historyWindow?: number;     // Seconds of energy averaged (default: 1)
+  minTimeBetweenBeats?: number; // Refractory period in ms (default: 250)
+}
+
+export interface BeatBandInfo {
+  isBeat: boolean;            // Whether the band hit on this frame
+  energy: number;             // Current energy in the band
+  averageEnergy: number;      // Average energy in the band
+  delta: number;              // Energy difference
+}
+
+export interface PitchDetectorOptions {
+  minFrequency?: number;      // Lowest pitch searched in Hz (default: 50)
+  maxFrequency?: number;      // Highest pitch searched in Hz (default: 2000)
+  threshold?: number;         // Pick the first period whose clarity is within this ratio of the best (default: 0.9)
+  minClarity?: number;        // Report no pitch below this clarity (0-1, default: 0.6)
+  minVolume?: number;         // Report no pitch below this RMS level (0-1, default: 0.01)
+  referenceFrequency?: number; // Frequency of A4 in Hz (default: 440)
+}
+
+export interface NoteInfo {
+  midi: number;               // Nearest MIDI note number (69 is A4)
+  note: string;               // Note name with sharps, e.g. 'C#'
+  octave: number;             // Scientific pitch octave (A4 is in octave 4)
+  cents: number;              // Offset from the nearest note (-50 to 50)
+}
+
+export interface PitchInfo {
+  frequency: number | null;   // Fundamental in Hz, null when no clear pitch is found
+  clarity: number;            // How periodic the signal is (0-1)
+  midi: number | null;
+  note: string | null;
+  octave: number | null;
+  cents: number;              // 0 when there is no pitch
+}
+
+export interface PitchHookReturn extends PitchInfo {
+  error: AudioVisualizerError | null; // Invalid options; the last valid ones stay in use
+}
+
+export interface VoiceActivityDetectorOptions {
+  onThreshold?: number;       // dB above the noise floor that starts speech (default: 9)
+  offThreshold?: number;      // dB above the noise floor that keeps speech going (default: 5)
+  minLevel?: number;          // dBFS below which nothing counts as speech (default: -60)
+  minSpeechDuration?: number; // Seconds the level must stay up before speech starts (default: 0.1)
+  hangover?: number;          // Seconds speech continues after the level drops (default: 0.3)
+  noiseAdaptation?: number;   // Time constant in seconds of the noise floor rising (default: 3)
+  bandLimited?: boolean;      // Measure the level in speechBand instead of broadband (default: false)
+  speechBand?: {              // Band for bandLimited and flatness (default: 300-3400 Hz)
+    low: number;              // Low frequency (Hz)
+    high: number;             // High frequency (Hz)
+  };
+  maxFlatness?: number;       // Spectral flatness above which frames count as noise (0-1, default: 1, off)
+}
+
+export interface VoiceActivityInfo {
+  isSpeaking: boolean;        // Whether speech is going on
+  isSpeechStart: boolean;     // Whether speech was confirmed on this frame
+  isSpeechEnd: boolean;       // Whether speech ended on this frame
+  speechStartTime: number | null; // When the current or last segment started, in seconds
+  speechEndTime: number | null;   // When the last segment ended (null while speaking)
+  level: number;              // Level in dBFS
+  noiseFloor: number;         // Estimated noise level in dBFS
+  flatness: number;           // Spectral flatness of the speech band (0 tonal to 1 noise)
+  time: number;               // Time of the frame in seconds
+}
+
+export interface SpeechEvent {
+  time: number;               // When speech started or ended, in seconds on the audio clock
+  duration: number;           // Length of the segment so far in seconds
+}
+
+export interface VoiceActivityOptions extends VoiceActivityDetectorOptions {
+  onSpeechStart?: (event: SpeechEvent) => void; // Called once speech lasted minSpeechDuration
+  onSpeechEnd?: (event: SpeechEvent) => void;   // Called once the hangover ran out
+}
+
+export interface VoiceActivityHookReturn extends VoiceActivityInfo {
+  reset: () => void;          // Forget the noise floor and current segment
+}
+
+export type AudioFeatureName =
+  | 'energy'
+  | 'rms'
+  | 'zcr'
+  | 'crest'
+  | 'centroid'
+  | 'spread'
+  | 'flatness'
+  | 'rolloff'
+  | 'flux'
+  | 'mfcc'
+  | 'chroma';
+
+export interface FeatureExtractorOptions {
+  features?: AudioFeatureName[]; // Features to compute (default: all)
+  rolloffPercent?: number;    // Share of the spectral energy below the rolloff (default: 0.85)
+  mfccCount?: number;         // Number of MFCCs (default: 13)
+  melBandCount?: number;      // Mel filters the MFCCs are computed from (default: 26)
+  minFrequency?: number;      // Lowest frequency of the mel filters in Hz (default: 0)
+  maxFrequency?: number;      // Highest frequency of the mel filters in Hz (default: Nyquist)
+  referenceFrequency?: number; // Frequency of A4 the chroma bins are tuned to (default: 440)
+}
+
+export interface AudioFeatures {
+  energy?: number;            // Mean square of the samples
+  rms?: number;               // Root mean square of the samples (0-1)
+  zcr?: number;               // Share of neighbouring samples that change sign (0-1)
+  crest?: number;             // Peak to RMS ratio of the samples (a sine is 1.41)
+  centroid?: number;          // Magnitude-weighted mean frequency in Hz
+  spread?: number;            // Standard deviation of frequency around the centroid in Hz
+  flatness?: number;          // Geometric over arithmetic mean of the power spectrum (0 tonal to 1 noise)
+  rolloff?: number;           // Frequency below which rolloffPercent of the energy lies in Hz
+  flux?: number;              // Sum of magnitude increases since the previous frame
+  mfcc?: number[];            // Mel-frequency cepstral coefficients
+  chroma?: number[];          // Energy per pitch class from C to B, scaled so the highest is 1
+}
+
+// The parts of an AudioBuffer offline analysis reads, so plain objects work outside the browser
+export type AudioBufferLike = Pick<
+  AudioBuffer,
+  'sampleRate' | 'length' | 'duration' | 'numberOfChannels' | 'getChannelData'
+>;
+
+export interface AudioBufferAnalysisOptions {
+  fftSize?: number;           // Samples per analysis frame, a power of two (default: 2048)
+  hopSize?: number;           // Samples between frame starts (default: fftSize / 2)
+  window?: WindowFunction;    // Window applied before the FFT (default: 'blackman')
+  smoothingTimeConstant?: number; // Averaging between frames, as AnalyserNode (default: 0, off)
+  peakCount?: number;         // Number of min/max waveform peak pairs (default: 1000)
+  minDecibels?: number;       // Decibel value mapped to level 0 (default: -100)
+  maxDecibels?: number;       // Decibel value mapped to level 1 (default: -30)
+  channel?: number;           // Analyse a single channel instead of the downmix
+  spectrogram?: boolean;      // Whether to build the spectrogram (default: true)
+  features?: boolean;         // Whether to compute per-frame features (default: true)
+  processing?: DataProcessorOptions; // Options for the per-frame features
+}
+
+export interface WaveformPeaks {
+  min: Float32Array;          // Lowest sample (-1 to 1) of each peak window
+  max: Float32Array;          // Highest sample (-1 to 1) of each peak window
+  samplesPerPeak: number;     // Samples covered by each peak
+}
+
+export interface Spectrogram {
+  data: Float32Array[];       // One row of dBFS values per frame, fftSize / 2 bins each
+  times: number[];            // Start time of each frame in seconds
+  binCount: number;           // Bins per row
+  binWidth: number;           // Hz per bin
+}
+
+export interface AudioBufferFrame extends VisualizerProcessedData {
+  time: number;               // Start time of the frame in seconds
+}
+
+export interface AudioBufferAnalysis {
+  duration: number;           // Duration in seconds
+  sampleRate: number;
+  numberOfChannels: number;
+  peaks: WaveformPeaks;
+  spectrogram: Spectrogram | null;
+  frames: AudioBufferFrame[]; // Per-frame features (empty when disabled)
+}
+
+export interface BeatMapOptions extends OnsetDetectorOptions, TempoAnalyzerOptions {
+  fftSize?: number;           // Samples per analysis frame, a power of two (default: 2048)
+  hopSize?: number;           // Samples between frames, smaller is more precise (default: 512)
+  channel?: number;           // Analyse a single channel instead of the downmix
+  onsetDetector?: OnsetMethod; // Onset detection strategy (default: 'spectral-flux')
+  beatsPerBar?: number;       // Beats in a bar (default: 4)
+  minSectionDuration?: number; // Shortest section in seconds (default: 8)
+}
+
+export interface BeatMapBeat {
+  time: number;               // Time of the beat in seconds
+  index: number;              // Position in the beat grid, from 0
+  bar: number;                // Bar number, from 1 at the first downbeat (0 for a pickup)
+  beatInBar: number;          // Position within the bar, 1 on the downbeat
+  isDownbeat: boolean;        // Whether the beat starts a bar
+  strength: number;           // Onset strength at the beat (0-1)
+}
+
+export interface TempoChange {
+  time: number;               // Time the tempo takes effect in seconds
+  tempo: number;              // Tempo in BPM
+}
+
+export interface BeatMapSection {
+  start: number;              // Start time in seconds
+  end: number;                // End time in seconds
+  energy: number;             // RMS level of the section (0-1)
+}
+
+export interface BeatMap {
+  duration: number;           // Duration in seconds
+  tempo: number;              // Overall tempo in BPM, 0 when no beat was found
+  confidence: number;         // How consistently the onsets agree with the tempo (0-1)
+  beatsPerBar: number;
+  beats: BeatMapBeat[];       // The beat grid, in time order
+  downbeats: number[];        // Times of the first beat of each bar
+  tempoChanges: TempoChange[]; // The tempo from the first beat on, and each change after it
+  sections: BeatMapSection[]; // Consecutive sections covering the whole file
+}
+
+export interface BeatMapPosition {
+  beatIndex: number;          // Index of the latest beat at or before the time, -1 before the first
+  beat: BeatMapBeat | null;   // That beat
+  nextBeatTime: number | null; // Time of the next beat in seconds, null after the last
+  phase: number;              // Progress from the current beat to the next (0-1)
+  bar: number;                // Bar of the current beat (0 before the first beat)
+  beatInBar: number;          // Position of the current beat within its bar (0 before the first beat)
+  tempo: number;              // Tempo in effect in BPM
+  sectionIndex: number;       // Index of the current section, -1 outside the file
+}
+
+export interface BeatMapHookReturn extends BeatMapPosition {
+  beatMap: BeatMap | null;    // Beat map of the buffer, null until analysed
+  isBeat: boolean;            // Whether playback crossed a beat since the previous update
+  isLoading: boolean;         // Whether the buffer is being analysed
+  error: AudioVisualizerError | null; // Why the analysis failed, e.g. invalid options
+}
+
+export type AudioErrorCode =
+  | 'permission-denied'     // The user or browser refused microphone access
+  | 'permission-dismissed'  // The permission prompt was closed without an answer
+  | 'no-device'             // No microphone is available
+  | 'device-in-use'         // The microphone can't be opened, usually because another app holds it
+  | 'overconstrained'       // No device satisfies deviceId/audioConstraints
+  | 'insecure-context'      // Microphone access needs HTTPS or localhost
+  | 'unsupported-browser'   // Web Audio or media devices are missing
+  | 'unsupported-codec'     // The browser can't decode this format
+  | 'decode-error'          // The audio data is corrupt or unreadable
+  | 'context-closed'        // The AudioContext has been closed
+  | 'context-suspended'     // The AudioContext could not be resumed (usually needs a user gesture)
+  | 'invalid-options'       // Analyser options were rejected
+  | 'media-element-in-use'  // The media element is wired to another AudioContext
+  | 'network'               // Fetching audio failed
+  | 'aborted'               // Loading or analysis was cancelled
+  | 'unknown';
+
 export interface AudioVisualizerError extends Error {
-  type: 'permission' | 'browser_support' | 'file_format' | 'processing' | 'unknown';
+  code: AudioErrorCode;     // Precise reason for the failure
+  type: 'permission' | 'device' | 'browser_support' | 'file_format' | 'processing' | 'network' | 'aborted' | 'unknown';
+  cause?: unknown;          // Original error, if any
+  status?: number;          // HTTP status for network errors
+  retry?: () => Promise<void>; // Re-run the operation that failed
 } 
\ No newline at end of file
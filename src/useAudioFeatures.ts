@@ -0,0 +1,50 @@
+import { useState, useEffect, useRef } from 'react';
+import { AudioData, AudioFeatureName, AudioFeatures, FeatureExtractorOptions } from './types';
+import { FeatureExtractor } from './utils/audioFeatures';
+
+/**
+ * Hook for per-frame audio features such as MFCCs, chroma and spectral flux
+ *
+ * @param audioData Audio data from useAudioVisualizer
+ * @param features Features to compute; only these are calculated
+ * @param options MFCC, chroma and rolloff settings
+ * @returns The requested features
+ */
+export const useAudioFeatures = (
+  audioData: AudioData | null,
+  features: AudioFeatureName[],
+  options: Omit<FeatureExtractorOptions, 'features'> = {}
+): AudioFeatures => {
+  const [result, setResult] = useState<AudioFeatures>({});
+
+  // The extractor keeps the previous spectrum for flux across renders
+  const [extractor] = useState(() => new FeatureExtractor({ ...options, features }));
+
+  const { rolloffPercent, mfccCount, melBandCount, minFrequency, maxFrequency, referenceFrequency } = options;
+  const featuresRef = useRef(features);
+  featuresRef.current = features;
+
+  // Features are compared by value, so an inline array doesn't update the extractor every render
+  const featuresKey = features.join(',');
+
+  useEffect(() => {
+    extractor.updateOptions({
+      features: featuresRef.current,
+      rolloffPercent,
+      mfccCount,
+      melBandCount,
+      minFrequency,
+      maxFrequency,
+      referenceFrequency
+    });
+  }, [extractor, featuresKey, rolloffPercent, mfccCount, melBandCount, minFrequency, maxFrequency, referenceFrequency]);
+
+  // Extract features when audio data changes
+  useEffect(() => {
+    if (!audioData) return;
+
+    setResult(extractor.extract(audioData));
+  }, [extractor, audioData]);
+
+  return result;
+};
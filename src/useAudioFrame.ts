@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { AudioFrameCallback, VisualizerHookReturn } from './types';
+
+/**
+ * Hook running a callback on every animation frame without re-rendering
+ * 
+ * Suited to drawing on a canvas: the callback receives the latest audio data
+ * straight from the analyser loop. The frame and its arrays are reused, so copy
+ * any values that need to outlive the call.
+ * 
+ * @param visualizer Return value of useAudioVisualizer (only subscribe is used)
+ * @param callback Function called with each frame
+ */
+export const useAudioFrame = (
+  visualizer: Pick<VisualizerHookReturn, 'subscribe'>,
+  callback: AudioFrameCallback
+): void => {
+  const { subscribe } = visualizer;
+
+  // Keep the latest callback without resubscribing on every render
+  const callbackRef = useRef<AudioFrameCallback>(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    return subscribe(frame => callbackRef.current(frame));
+  }, [subscribe]);
+};
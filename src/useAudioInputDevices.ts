@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AudioInputDevicesReturn } from './types';
+import { createAudioError, createMediaDevicesUnavailableError } from './utils/errors';
+
+/**
+ * Hook listing the available audio input devices
+ * 
+ * The list is kept up to date when devices are plugged in or removed.
+ * Browsers hide device labels until microphone permission has been granted,
+ * so call refresh() after recording starts to pick them up.
+ * 
+ * @returns Available audio inputs and a function to refresh them
+ */
+export const useAudioInputDevices = (): AudioInputDevicesReturn => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
+      setError(createMediaDevicesUnavailableError());
+      return;
+    }
+
+    try {
+      const allDevices = await navigator.mediaDevices.enumerateDevices();
+      setDevices(allDevices.filter(device => device.kind === 'audioinput'));
+      setError(null);
+    } catch (err: any) {
+      setError(createAudioError('unknown', err.message || 'Failed to list audio devices', err));
+    }
+  }, []);
+
+  // Read the initial list and follow device changes
+  useEffect(() => {
+    refresh();
+
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices || !mediaDevices.addEventListener) return;
+
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [refresh]);
+
+  return {
+    devices,
+    error,
+    refresh
+  };
+};
@@ -1,14 +1,19 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { 
-  AudioData, 
+import {
+  AudioData,
+  AudioFrameCallback,
   AudioVisualizerOptions,
+  AudioVisualizerEventListener,
+  AudioVisualizerState,
   VisualizerHookReturn,
-  AudioVisualizerError
+  LoadAudioUrlOptions
 } from './types';
+import { AudioVisualizerEngine } from './AudioVisualizerEngine';
+import { useAudioVisualizerContext } from './AudioVisualizerProvider';
 
 /**
  * Custom hook for audio visualization from microphone input or audio files
- * 
+ *
  * @param options Configuration options for the audio analyzer
  * @returns Object containing audio data and methods to control recording
  */
@@ -20,229 +25,179 @@ export const useAudioVisualizer = (
     smoothingTimeConstant = 0.8,
     minDecibels = -100,
     maxDecibels = -30,
+    deviceId,
+    audioConstraints,
+    dataFormat = 'byte',
+    channelCount = 1,
+    updateRate,
+    onStatusChange,
+    onEnded,
+    onError,
   } = options;
 
+  // Shared context from an AudioVisualizerProvider, if any
+  const sharedContext = useAudioVisualizerContext();
+
+  // The engine owns the audio graph; this hook only mirrors its state into React
+  const [engine] = useState(() => new AudioVisualizerEngine({
+    fftSize,
+    smoothingTimeConstant,
+    minDecibels,
+    maxDecibels,
+    deviceId,
+    audioConstraints,
+    dataFormat,
+    channelCount,
+    sharedContext: sharedContext || undefined
+  }));
+
+  const [state, setState] = useState<AudioVisualizerState>(() => engine.getState());
   const [audioData, setAudioData] = useState<AudioData | null>(null);
-  const [isRecording, setIsRecording] = useState<boolean>(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  // Use refs to hold values without causing re-renders
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | AudioBufferSourceNode | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const animationRef = useRef<number | null>(null);
-
-  /**
-   * Initialize the audio analyzer with the given options
-   */
-  const initializeAnalyzer = useCallback((): void => {
-    try {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      }
-
-      if (analyserRef.current) {
-        analyserRef.current.disconnect();
-      }
-
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = fftSize;
-      analyserRef.current.smoothingTimeConstant = smoothingTimeConstant;
-      analyserRef.current.minDecibels = minDecibels;
-      analyserRef.current.maxDecibels = maxDecibels;
-    } catch (err) {
-      const audioError = new Error('Failed to initialize audio analyzer') as AudioVisualizerError;
-      audioError.type = 'browser_support';
-      setError(audioError);
-    }
-  }, [fftSize, smoothingTimeConstant, minDecibels, maxDecibels]);
-
-  /**
-   * Update audio data based on the current analyzer state
-   */
-  const updateAudioData = useCallback((): void => {
-    if (!analyserRef.current || !audioContextRef.current) return;
-
-    const bufferLength = analyserRef.current.frequencyBinCount;
-    const frequencyData = new Uint8Array(bufferLength);
-    const timeData = new Uint8Array(bufferLength);
-
-    analyserRef.current.getByteFrequencyData(frequencyData);
-    analyserRef.current.getByteTimeDomainData(timeData);
-
-    setAudioData({
-      frequencyData,
-      timeData,
-      audioContext: audioContextRef.current,
-      analyser: analyserRef.current,
-      bufferLength,
-      source: sourceRef.current || undefined
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+
+  const callbacksRef = useRef({ onStatusChange, onEnded, onError });
+  callbacksRef.current = { onStatusChange, onEnded, onError };
+
+  const updateRateRef = useRef<number | undefined>(updateRate);
+  const lastStateUpdateRef = useRef<number>(0);
+  updateRateRef.current = updateRate;
+
+  // Apply option changes to the engine, keeping the source connected
+  useEffect(() => {
+    engine.updateOptions({
+      fftSize,
+      smoothingTimeConstant,
+      minDecibels,
+      maxDecibels,
+      deviceId,
+      audioConstraints,
+      dataFormat,
+      channelCount
     });
+  }, [
+    engine,
+    fftSize,
+    smoothingTimeConstant,
+    minDecibels,
+    maxDecibels,
+    deviceId,
+    audioConstraints,
+    dataFormat,
+    channelCount
+  ]);
+
+  // Mirror engine state and events into React
+  useEffect(() => {
+    const handleStateChange: AudioVisualizerEventListener<'statechange'> = ({ state: next }) => {
+      setState(next);
+      setCurrentTime(engine.currentTime);
+      setAudioBuffer(engine.audioBuffer);
+    };
 
-    animationRef.current = requestAnimationFrame(updateAudioData);
-  }, []);
-
-  /**
-   * Start recording from the microphone
-   */
-  const startRecording = useCallback(async (): Promise<void> => {
-    try {
-      initializeAnalyzer();
-
-      if (!audioContextRef.current || !analyserRef.current) {
-        throw new Error('Audio context not initialized');
-      }
-
-      // Resume audio context if it was suspended
-      if (audioContextRef.current.state === 'suspended') {
-        await audioContextRef.current.resume();
-      }
-
-      // Get user media stream
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        }
+    const handleFrame: AudioFrameCallback = (frame) => {
+      // State updates are throttled to updateRate, or skipped entirely when it is 0
+      const rate = updateRateRef.current;
+      const now = performance.now();
+      const shouldUpdateState = rate === undefined ||
+        (rate > 0 && now - lastStateUpdateRef.current >= 1000 / rate);
+
+      if (!shouldUpdateState) return;
+      lastStateUpdateRef.current = now;
+
+      // State gets its own copy so it stays stable while the frame buffers are refilled
+      setAudioData({
+        ...frame,
+        frequencyData: frame.frequencyData.slice(),
+        timeData: frame.timeData.slice(),
+        channels: frame.channels?.map(channel => ({
+          frequencyData: channel.frequencyData.slice(),
+          timeData: channel.timeData.slice()
+        }))
       });
+      setCurrentTime(engine.currentTime);
+    };
 
-      streamRef.current = stream;
-
-      // Create source node from mic stream
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      sourceRef.current = source;
-
-      // Connect source to analyzer
-      source.connect(analyserRef.current);
-      
-      // Start the animation loop
-      updateAudioData();
-      
-      setIsRecording(true);
-      setError(null);
-    } catch (err: any) {
-      let audioError: AudioVisualizerError;
-      
-      if (err.name === 'NotAllowedError') {
-        audioError = new Error('Microphone permission denied') as AudioVisualizerError;
-        audioError.type = 'permission';
-      } else {
-        audioError = new Error(err.message || 'Failed to start recording') as AudioVisualizerError;
-        audioError.type = 'unknown';
-      }
-      
-      setError(audioError);
-      setIsRecording(false);
-    }
-  }, [initializeAnalyzer, updateAudioData]);
-
-  /**
-   * Stop the current recording or playback
-   */
-  const stopRecording = useCallback((): void => {
-    // Cancel animation frame
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
-      animationRef.current = null;
-    }
-
-    // Disconnect source from analyzer
-    if (sourceRef.current) {
-      sourceRef.current.disconnect();
-      sourceRef.current = null;
-    }
-
-    // Stop all tracks in the stream
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-
-    setIsRecording(false);
-  }, []);
-
-  /**
-   * Load and analyze an audio file
-   */
-  const loadAudioFile = useCallback(async (file: File): Promise<void> => {
-    try {
-      // Stop any current recording
-      stopRecording();
-      
-      initializeAnalyzer();
-
-      if (!audioContextRef.current || !analyserRef.current) {
-        throw new Error('Audio context not initialized');
-      }
-
-      // Resume audio context if it was suspended
-      if (audioContextRef.current.state === 'suspended') {
-        await audioContextRef.current.resume();
-      }
-
-      // Read file as array buffer
-      const arrayBuffer = await new Promise<ArrayBuffer>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as ArrayBuffer);
-        reader.onerror = () => reject(reader.error);
-        reader.readAsArrayBuffer(file);
-      });
+    const handleStatusChange: AudioVisualizerEventListener<'statuschange'> = ({ status, previous }) => {
+      callbacksRef.current.onStatusChange?.(status, previous);
+    };
+    const handleError: AudioVisualizerEventListener<'error'> = ({ error }) => {
+      callbacksRef.current.onError?.(error);
+    };
+    const handleEnded: AudioVisualizerEventListener<'ended'> = () => {
+      callbacksRef.current.onEnded?.();
+    };
 
-      // Decode audio data
-      const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-      
-      // Create source node from buffer
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBuffer;
-      sourceRef.current = source;
-      
-      // Connect source to analyzer
-      source.connect(analyserRef.current);
-      source.connect(audioContextRef.current.destination);
-      
-      // Start playback
-      source.start(0);
-      
-      // When playback ends, clean up
-      source.onended = stopRecording;
-      
-      // Start the animation loop
-      updateAudioData();
-      
-      setIsRecording(true);
-      setError(null);
-    } catch (err: any) {
-      const audioError = new Error(
-        err.message || 'Failed to load audio file'
-      ) as AudioVisualizerError;
-      audioError.type = 'file_format';
-      setError(audioError);
-    }
-  }, [initializeAnalyzer, stopRecording, updateAudioData]);
-
-  // Clean up resources when the component unmounts
-  useEffect(() => {
+    engine.addEventListener('statechange', handleStateChange);
+    engine.addEventListener('statuschange', handleStatusChange);
+    engine.addEventListener('error', handleError);
+    engine.addEventListener('ended', handleEnded);
+    const unsubscribe = engine.subscribe(handleFrame);
+
+    // Clean up resources when the component unmounts
     return () => {
-      stopRecording();
-      
-      if (analyserRef.current) {
-        analyserRef.current.disconnect();
-      }
-      
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
+      unsubscribe();
+      engine.removeEventListener('statechange', handleStateChange);
+      engine.removeEventListener('statuschange', handleStatusChange);
+      engine.removeEventListener('error', handleError);
+      engine.removeEventListener('ended', handleEnded);
+
+      // Closes the context, or hands it back to the provider
+      engine.dispose();
     };
-  }, [stopRecording]);
+  }, [engine]);
+
+  const startRecording = useCallback(() => engine.start(), [engine]);
+  const stopRecording = useCallback(() => engine.stop(), [engine]);
+  const loadAudioFile = useCallback((file: File) => engine.load(file), [engine]);
+  const loadAudioUrl = useCallback(
+    (url: string, urlOptions?: LoadAudioUrlOptions) => engine.loadUrl(url, urlOptions),
+    [engine]
+  );
+  const switchInputDevice = useCallback((id?: string) => engine.switchInputDevice(id), [engine]);
+  const connectMediaElement = useCallback(
+    (element: HTMLMediaElement) => engine.connectMediaElement(element),
+    [engine]
+  );
+  const connectNode = useCallback((node: AudioNode) => engine.connectNode(node), [engine]);
+  const pause = useCallback(() => engine.pause(), [engine]);
+  const resume = useCallback(() => engine.resume(), [engine]);
+  const setPlaybackRate = useCallback((rate: number) => engine.setPlaybackRate(rate), [engine]);
+  const setLoop = useCallback((loop: boolean) => engine.setLoop(loop), [engine]);
+  const retry = useCallback(() => engine.retry(), [engine]);
+  const subscribe = useCallback((callback: AudioFrameCallback) => engine.subscribe(callback), [engine]);
+
+  const seek = useCallback((seconds: number): void => {
+    engine.seek(seconds);
+    setCurrentTime(engine.currentTime);
+  }, [engine]);
 
   return {
     audioData,
-    isRecording,
-    error,
+    isRecording: state.isRecording,
+    status: state.status,
+    sourceType: state.sourceType,
+    error: state.error,
+    retry,
+    subscribe,
     startRecording,
     stopRecording,
-    loadAudioFile
+    loadAudioFile,
+    loadAudioUrl,
+    loadProgress: state.loadProgress,
+    switchInputDevice,
+    connectMediaElement,
+    connectNode,
+    pause,
+    resume,
+    seek,
+    setPlaybackRate,
+    setLoop,
+    isPaused: state.isPaused,
+    currentTime,
+    duration: state.duration,
+    audioBuffer,
+    playbackRate: state.playbackRate,
+    loop: state.loop
   };
-}; 
\ No newline at end of file
+};
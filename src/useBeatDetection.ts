@@ -1,15 +1,24 @@
 import { useState, useEffect, useRef } from 'react';
-import { AudioData } from './types';
+import { AudioData, BeatBandInfo, BeatBandOptions, OnsetDetector, OnsetMethod } from './types';
 import { createBeatAnalyzer, BeatDetector } from './utils/beatDetection';
 
 interface BeatDetectionOptions {
   threshold?: number;      // Detection threshold (0-1)
-  decayRate?: number;      // Decay rate
+  decayRate?: number;      // Decay rate per 1/60 s
+  historyWindow?: number;  // Seconds of energy averaged ('energy' strategy, default: 1)
   minTimeBetweenBeats?: number; // Minimum time between beats (ms)
   frequencyRange?: {       // Frequency range for beat detection
     low: number;           // Low frequency (Hz)
     high: number;          // High frequency (Hz)
   };
+  multiplier?: number;     // Weight of the moving median in the adaptive threshold (novelty strategies)
+  medianWindow?: number;   // Seconds covered by the moving median (novelty strategies)
+  onsetDetector?: OnsetMethod | OnsetDetector; // Onset detection strategy (default: 'energy')
+  minTempo?: number;       // Slowest tempo considered (BPM, default: 60)
+  maxTempo?: number;       // Fastest tempo considered (BPM, default: 180)
+  preferredTempo?: number; // Tempo favoured between half and double time (BPM, default: 120)
+  tempoWindow?: number;    // Seconds of beats the tempo is estimated from (default: 8)
+  bands?: Record<string, BeatBandOptions>; // Bands detected separately (default: kick, snare and hihat)
 }
 
 interface BeatDetectionResult {
@@ -18,8 +27,12 @@ interface BeatDetectionResult {
   averageEnergy: number;   // Average energy
   delta: number;           // Energy difference
   tempo: number;           // Estimated tempo (BPM)
-  time: number;            // Timestamp
+  confidence: number;      // Confidence in the tempo (0-1)
+  phase: number;           // Position within the current beat (0-1)
+  nextBeatTime: number | null; // Predicted time of the next beat (audio clock, seconds)
+  time: number;            // Time of the frame (audio clock, seconds)
   beats: number;           // Number of beats detected
+  bands: Record<string, BeatBandInfo>; // Hits and energy of each band
   updateOptions: (options: Partial<BeatDetectionOptions>) => void; // Update options
   reset: () => void;       // Reset detector
 }
@@ -41,51 +54,87 @@ export const useBeatDetection = (
     averageEnergy: 0,
     delta: 0,
     tempo: 0,
-    time: Date.now(),
-    beats: 0
+    confidence: 0,
+    phase: 0,
+    nextBeatTime: null,
+    time: 0,
+    beats: 0,
+    bands: {}
   });
   
-  // Use refs to store state across renders
-  const beatCountRef = useRef<number>(0);
-  const analyzerRef = useRef(createBeatAnalyzer(options));
+  // The analyzer keeps detection history and the beat count across renders
+  const [analyzer] = useState(() => createBeatAnalyzer(options));
   
-  // Initialize analyzer with options
+  const {
+    threshold,
+    decayRate,
+    historyWindow,
+    minTimeBetweenBeats,
+    frequencyRange,
+    multiplier,
+    medianWindow,
+    onsetDetector,
+    minTempo,
+    maxTempo,
+    preferredTempo,
+    tempoWindow,
+    bands
+  } = options;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Bands are compared by value, so an inline object doesn't rebuild their state every render
+  const bandsKey = bands ? JSON.stringify(bands) : undefined;
+
+  // Apply option changes to the running analyzer
+  useEffect(() => {
+    analyzer.updateOptions({ ...optionsRef.current, bands: undefined });
+  }, [
+    analyzer,
+    threshold,
+    decayRate,
+    historyWindow,
+    minTimeBetweenBeats,
+    frequencyRange?.low,
+    frequencyRange?.high,
+    multiplier,
+    medianWindow,
+    onsetDetector,
+    minTempo,
+    maxTempo,
+    preferredTempo,
+    tempoWindow
+  ]);
+
   useEffect(() => {
-    analyzerRef.current.updateOptions(options);
-  }, [options]);
+    const { bands } = optionsRef.current;
+    if (bands) {
+      analyzer.updateOptions({ bands });
+    }
+  }, [analyzer, bandsKey]);
   
   // Analyze beats when audio data changes
   useEffect(() => {
     if (!audioData) return;
     
-    const beatInfo = analyzerRef.current.analyzeBeat(audioData);
-    
-    if (beatInfo.isBeat) {
-      beatCountRef.current += 1;
-    }
-    
-    setBeatState({
-      ...beatInfo,
-      beats: beatCountRef.current
-    });
-  }, [audioData]);
+    setBeatState(analyzer.analyzeBeat(audioData));
+  }, [analyzer, audioData]);
   
   // Reset analyzer when component unmounts
   useEffect(() => {
     return () => {
-      analyzerRef.current.reset();
+      analyzer.reset();
     };
-  }, []);
+  }, [analyzer]);
   
   // Update options function
   const updateOptions = (newOptions: Partial<BeatDetectionOptions>) => {
-    analyzerRef.current.updateOptions(newOptions);
+    analyzer.updateOptions(newOptions);
   };
   
   // Reset function
   const reset = () => {
-    analyzerRef.current.reset();
-    beatCountRef.current = 0;
+    analyzer.reset();
     setBeatState(prev => ({
       ...prev,
       isBeat: false,
@@ -93,7 +142,11 @@ export const useBeatDetection = (
       averageEnergy: 0,
       delta: 0,
       tempo: 0,
-      beats: 0
+      confidence: 0,
+      phase: 0,
+      nextBeatTime: null,
+      beats: 0,
+      bands: {}
     }));
   };
   
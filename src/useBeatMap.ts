@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  AudioBufferLike,
+  AudioVisualizerError,
+  BeatMap,
+  BeatMapHookReturn,
+  BeatMapOptions,
+  BeatMapPosition
+} from './types';
+import { analyzeBeatsAsync, getBeatPosition } from './utils/beatMap';
+
+const NO_POSITION: BeatMapPosition = {
+  beatIndex: -1,
+  beat: null,
+  nextBeatTime: null,
+  phase: 0,
+  bar: 0,
+  beatInBar: 0,
+  tempo: 0,
+  sectionIndex: -1
+};
+
+/**
+ * Hook for following a precomputed beat map during playback
+ *
+ * Analyses the whole buffer once with analyzeBeatsAsync, which yields to the page
+ * while it works, then reports the beat, bar, phase and section at the playback
+ * position, so visuals land exactly on the beat instead of reacting to detected onsets.
+ *
+ * @param buffer Decoded audio of the file being played, e.g. audioBuffer from useAudioVisualizer
+ * @param currentTime Playback position in seconds, e.g. currentTime from useAudioVisualizer
+ * @param options Beat map options, read when the buffer changes
+ * @returns The beat map, the position within it and the analysis state
+ */
+export const useBeatMap = (
+  buffer: AudioBufferLike | null,
+  currentTime: number,
+  options: BeatMapOptions = {}
+): BeatMapHookReturn => {
+  const [beatMap, setBeatMap] = useState<BeatMap | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<AudioVisualizerError | null>(null);
+  const [position, setPosition] = useState<BeatMapPosition & { isBeat: boolean }>({
+    ...NO_POSITION,
+    isBeat: false
+  });
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const previousRef = useRef({ beatIndex: -1, time: 0 });
+
+  // Analysing a whole file is expensive, so it only runs for a new buffer.
+  // An analysis still running for the previous buffer is cancelled.
+  useEffect(() => {
+    setBeatMap(null);
+    setError(null);
+    setIsLoading(buffer !== null);
+    previousRef.current = { beatIndex: -1, time: 0 };
+    if (!buffer) return;
+
+    const controller = new AbortController();
+    analyzeBeatsAsync(buffer, optionsRef.current, controller.signal)
+      .then(result => {
+        if (controller.signal.aborted) return;
+        setBeatMap(result);
+        setIsLoading(false);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setError(err as AudioVisualizerError);
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [buffer]);
+
+  useEffect(() => {
+    if (!beatMap) {
+      setPosition({ ...NO_POSITION, isBeat: false });
+      return;
+    }
+
+    const next = getBeatPosition(beatMap, currentTime);
+    const previous = previousRef.current;
+
+    // A beat counts when playback moved forward across it, not when seeking past it
+    const isBeat = next.beat !== null &&
+      next.beatIndex > previous.beatIndex &&
+      previous.time <= next.beat.time &&
+      currentTime - previous.time < 2 * 60 / Math.max(next.tempo, 1);
+
+    previousRef.current = { beatIndex: next.beatIndex, time: currentTime };
+    setPosition({ ...next, isBeat });
+  }, [beatMap, currentTime]);
+
+  return {
+    ...position,
+    beatMap,
+    isLoading,
+    error
+  };
+};
@@ -0,0 +1,133 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  LoudnessHookReturn,
+  LoudnessOptions,
+  LoudnessReading,
+  VisualizerHookReturn
+} from './types';
+import { LoudnessMeter } from './utils/loudness';
+import { createSampleTap, SampleTap } from './utils/sampleTap';
+
+const SILENT_READING: LoudnessReading = {
+  rms: -Infinity,
+  peak: -Infinity,
+  truePeak: -Infinity,
+  maxTruePeak: -Infinity,
+  momentary: -Infinity,
+  shortTerm: -Infinity,
+  integrated: -Infinity
+};
+
+/**
+ * Hook for loudness metering following ITU-R BS.1770 / EBU R128
+ *
+ * Measures RMS, sample and true peak, and momentary, short-term and integrated
+ * loudness of the audio flowing through a visualizer. Every sample is metered
+ * through a tap on the analyser, so dropped or slow frames don't leave gaps;
+ * frames only pace the state updates. Use `channelCount` to meter each channel
+ * (e.g. 2 for stereo).
+ *
+ * @param visualizer Return value of useAudioVisualizer (only subscribe is used)
+ * @param options Metering ballistics and state update rate
+ * @returns Current levels and a reset function
+ */
+export const useLoudness = (
+  visualizer: Pick<VisualizerHookReturn, 'subscribe'>,
+  options: LoudnessOptions = {}
+): LoudnessHookReturn => {
+  const { subscribe } = visualizer;
+  const {
+    channelWeights,
+    rmsWindow,
+    peakHold,
+    peakDecay,
+    truePeakOversampling,
+    updateRate
+  } = options;
+
+  const [reading, setReading] = useState<LoudnessReading>(SILENT_READING);
+
+  const meterRef = useRef<LoudnessMeter | null>(null);
+  const lastStateUpdateRef = useRef<number>(0);
+  const updateRateRef = useRef<number | undefined>(updateRate);
+  updateRateRef.current = updateRate;
+
+  // Weights are compared by value, so a new array with the same weights keeps the filters running
+  const channelWeightsKey = channelWeights?.join(',');
+  const meterOptions = { channelWeights, rmsWindow, peakHold, peakDecay, truePeakOversampling };
+  const meterOptionsRef = useRef(meterOptions);
+  meterOptionsRef.current = meterOptions;
+
+  // Apply ballistics changes to the running meter
+  useEffect(() => {
+    meterRef.current?.updateOptions(meterOptionsRef.current);
+  }, [channelWeightsKey, rmsWindow, peakHold, peakDecay, truePeakOversampling]);
+
+  useEffect(() => {
+    let tap: SampleTap | null = null;
+    let tappedNode: AudioNode | null = null;
+    let tappedChannels = 0;
+    let generation = 0;
+
+    const closeTap = () => {
+      generation += 1;
+      tap?.disconnect();
+      tap = null;
+    };
+
+    const unsubscribe = subscribe(frame => {
+      const { sampleRate } = frame.audioContext;
+      const channelCount = frame.channels?.length ?? 1;
+
+      if (!meterRef.current || meterRef.current.sampleRate !== sampleRate) {
+        meterRef.current = new LoudnessMeter({ ...meterOptionsRef.current, sampleRate });
+      }
+
+      // A new analyser (e.g. after a restart) or channel layout needs a new tap
+      if (frame.analyser !== tappedNode || channelCount !== tappedChannels) {
+        closeTap();
+        tappedNode = frame.analyser;
+        tappedChannels = channelCount;
+
+        const current = generation;
+        createSampleTap(frame.analyser, channelCount, channels => meterRef.current?.process(channels))
+          .then(created => {
+            if (current === generation) {
+              tap = created;
+            } else {
+              created.disconnect();
+            }
+          })
+          .catch(() => {
+            // Without Web Audio processing nodes there is nothing to meter
+          });
+      }
+
+      // State updates are throttled to updateRate, or skipped entirely when it is 0
+      const rate = updateRateRef.current;
+      const now = performance.now();
+      const shouldUpdateState = rate === undefined ||
+        (rate > 0 && now - lastStateUpdateRef.current >= 1000 / rate);
+
+      if (shouldUpdateState) {
+        lastStateUpdateRef.current = now;
+        setReading(meterRef.current.getReading());
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      closeTap();
+    };
+  }, [subscribe]);
+
+  const reset = useCallback((): void => {
+    meterRef.current?.reset();
+    setReading(meterRef.current?.getReading() ?? SILENT_READING);
+  }, []);
+
+  return {
+    ...reading,
+    reset
+  };
+};
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { AudioData, AudioVisualizerError, PitchDetectorOptions, PitchHookReturn, PitchInfo } from './types';
+import { PitchDetector } from './utils/pitch';
+
+/**
+ * Hook for pitch detection from audio data, for tuners and singing visualizers
+ *
+ * @param audioData Audio data from useAudioVisualizer
+ * @param options Pitch range, clarity gate and reference A4
+ * @returns Fundamental frequency, clarity and the nearest note, plus an error for invalid options
+ */
+export const usePitch = (
+  audioData: AudioData | null,
+  options: PitchDetectorOptions = {}
+): PitchHookReturn => {
+  const {
+    minFrequency,
+    maxFrequency,
+    threshold,
+    minClarity,
+    minVolume,
+    referenceFrequency
+  } = options;
+
+  const [pitch, setPitch] = useState<PitchInfo>({
+    frequency: null,
+    clarity: 0,
+    midi: null,
+    note: null,
+    octave: null,
+    cents: 0
+  });
+  const [error, setError] = useState<AudioVisualizerError | null>(null);
+
+  // The detector keeps its scratch buffers across renders; options are applied below
+  const [detector] = useState(() => new PitchDetector());
+
+  // Invalid options are reported rather than thrown, and the detector keeps the last valid ones
+  useEffect(() => {
+    try {
+      detector.updateOptions({ minFrequency, maxFrequency, threshold, minClarity, minVolume, referenceFrequency });
+      setError(null);
+    } catch (err) {
+      setError(err as AudioVisualizerError);
+    }
+  }, [detector, minFrequency, maxFrequency, threshold, minClarity, minVolume, referenceFrequency]);
+
+  // Detect pitch when audio data changes
+  useEffect(() => {
+    if (!audioData) return;
+
+    setPitch(detector.detect(audioData));
+  }, [detector, audioData]);
+
+  return {
+    ...pitch,
+    error
+  };
+};
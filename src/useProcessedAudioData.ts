@@ -1,6 +1,6 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { AudioData, DataProcessorOptions, VisualizerProcessedData } from './types';
-import { processAudioData } from './utils/audioProcessor';
+import { createAudioProcessor } from './utils/audioProcessor';
 
 /**
  * Hook for processing raw audio data into a format suitable for visualization
@@ -17,63 +17,20 @@ export const useProcessedAudioData = (
   options: DataProcessorOptions = {}
 ): VisualizerProcessedData | null => {
   const [processedData, setProcessedData] = useState<VisualizerProcessedData | null>(null);
-  
-  // Previous values for smoothing
-  const prevValues = useMemo(() => ({
-    frequencyData: [] as number[],
-    timeData: [] as number[],
-    volume: 0,
-    peakLevel: 0
-  }), []);
-  
+
+  // The processor keeps the previous frame for smoothing
+  const [processor] = useState(() => createAudioProcessor(options));
+
+  // Options are read on the next frame, so a new options object doesn't re-process the current one
+  processor.updateOptions(options);
+
   useEffect(() => {
     if (!audioData) {
       return;
     }
-    
-    const newProcessedData = processAudioData(audioData, options);
-    
-    // Apply smoothing if enabled
-    if (options.smoothing && options.smoothing > 0 && processedData) {
-      const smoothingFactor = Math.min(Math.max(options.smoothing, 0), 1);
-      const inverseFactor = 1 - smoothingFactor;
-      
-      // Smooth frequency data
-      for (let i = 0; i < newProcessedData.frequencyData.length; i++) {
-        if (i < prevValues.frequencyData.length) {
-          newProcessedData.frequencyData[i] = 
-            (smoothingFactor * prevValues.frequencyData[i]) + 
-            (inverseFactor * newProcessedData.frequencyData[i]);
-        }
-      }
-      
-      // Smooth time data
-      for (let i = 0; i < newProcessedData.timeData.length; i++) {
-        if (i < prevValues.timeData.length) {
-          newProcessedData.timeData[i] = 
-            (smoothingFactor * prevValues.timeData[i]) + 
-            (inverseFactor * newProcessedData.timeData[i]);
-        }
-      }
-      
-      // Smooth volume and peak level
-      newProcessedData.volume = 
-        (smoothingFactor * prevValues.volume) + 
-        (inverseFactor * newProcessedData.volume);
-      
-      newProcessedData.peakLevel = 
-        (smoothingFactor * prevValues.peakLevel) + 
-        (inverseFactor * newProcessedData.peakLevel);
-    }
-    
-    // Save current values for next frame's smoothing
-    prevValues.frequencyData = [...newProcessedData.frequencyData];
-    prevValues.timeData = [...newProcessedData.timeData];
-    prevValues.volume = newProcessedData.volume;
-    prevValues.peakLevel = newProcessedData.peakLevel;
-    
-    setProcessedData(newProcessedData);
-  }, [audioData, options, prevValues, processedData]);
-  
+
+    setProcessedData(processor.process(audioData));
+  }, [audioData, processor]);
+
   return processedData;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,108 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AudioData, VoiceActivityHookReturn, VoiceActivityInfo, VoiceActivityOptions } from './types';
+import { VoiceActivityDetector } from './utils/voiceActivity';
+
+const INITIAL_STATE: VoiceActivityInfo = {
+  isSpeaking: false,
+  isSpeechStart: false,
+  isSpeechEnd: false,
+  speechStartTime: null,
+  speechEndTime: null,
+  level: -Infinity,
+  noiseFloor: -Infinity,
+  flatness: 0,
+  time: 0
+};
+
+/**
+ * Hook for voice activity detection from audio data
+ *
+ * @param audioData Audio data from useAudioVisualizer
+ * @param options Thresholds, timing and speech start/end callbacks
+ * @returns Whether speech is going on, with the level and noise floor behind the decision
+ */
+export const useVoiceActivity = (
+  audioData: AudioData | null,
+  options: VoiceActivityOptions = {}
+): VoiceActivityHookReturn => {
+  const {
+    onSpeechStart,
+    onSpeechEnd,
+    onThreshold,
+    offThreshold,
+    minLevel,
+    minSpeechDuration,
+    hangover,
+    noiseAdaptation,
+    bandLimited,
+    speechBand,
+    maxFlatness
+  } = options;
+  const [state, setState] = useState<VoiceActivityInfo>(INITIAL_STATE);
+
+  // The detector keeps the noise floor and current segment across renders
+  const [detector] = useState(() => new VoiceActivityDetector(options));
+
+  // Keep the latest callbacks without re-running the detection effect
+  const onSpeechStartRef = useRef(onSpeechStart);
+  const onSpeechEndRef = useRef(onSpeechEnd);
+  onSpeechStartRef.current = onSpeechStart;
+  onSpeechEndRef.current = onSpeechEnd;
+
+  // The band is compared by value, so an inline object doesn't update the detector every render
+  const speechLow = speechBand?.low;
+  const speechHigh = speechBand?.high;
+
+  useEffect(() => {
+    detector.updateOptions({
+      onThreshold,
+      offThreshold,
+      minLevel,
+      minSpeechDuration,
+      hangover,
+      noiseAdaptation,
+      bandLimited,
+      speechBand: speechLow !== undefined && speechHigh !== undefined ? { low: speechLow, high: speechHigh } : undefined,
+      maxFlatness
+    });
+  }, [
+    detector,
+    onThreshold,
+    offThreshold,
+    minLevel,
+    minSpeechDuration,
+    hangover,
+    noiseAdaptation,
+    bandLimited,
+    speechLow,
+    speechHigh,
+    maxFlatness
+  ]);
+
+  // Classify each frame as audio data changes
+  useEffect(() => {
+    if (!audioData) return;
+
+    const info = detector.detect(audioData);
+    const { speechStartTime, speechEndTime, time } = info;
+
+    if (info.isSpeechStart && speechStartTime !== null) {
+      onSpeechStartRef.current?.({ time: speechStartTime, duration: time - speechStartTime });
+    }
+    if (info.isSpeechEnd && speechStartTime !== null && speechEndTime !== null) {
+      onSpeechEndRef.current?.({ time: speechEndTime, duration: speechEndTime - speechStartTime });
+    }
+
+    setState(info);
+  }, [detector, audioData]);
+
+  const reset = useCallback((): void => {
+    detector.reset();
+    setState(INITIAL_STATE);
+  }, [detector]);
+
+  return {
+    ...state,
+    reset
+  };
+};
@@ -0,0 +1,25 @@
+import { FeatureExtractor } from './audioFeatures';
+
+const sampleRate = 48000;
+
+// Spectrum of a 1 kHz tone, 1024 bins up to Nyquist
+const frame = () => ({
+  frequencyData: Float32Array.from({ length: 1024 }, (_, bin) => Math.abs(bin - 43) < 2 ? -20 : -100),
+  timeData: Float32Array.from({ length: 2048 }, (_, i) => 0.5 * Math.sin(2 * Math.PI * 1000 * i / sampleRate)),
+  sampleRate
+});
+
+describe('FeatureExtractor', () => {
+  it('keeps its options when updated with undefined fields', () => {
+    const extractor = new FeatureExtractor({ features: ['mfcc', 'rolloff', 'rms'] });
+    const before = extractor.extract(frame());
+
+    extractor.updateOptions({ features: undefined, mfccCount: undefined, rolloffPercent: undefined, maxFrequency: undefined });
+    const after = extractor.extract(frame());
+
+    expect(after.mfcc).toHaveLength(13);
+    expect(after.rolloff).toBeCloseTo(before.rolloff as number, 6);
+    expect(after.rolloff).toBeLessThan(2000);
+    expect(after.rms).toBeCloseTo(before.rms as number, 6);
+  });
+});
@@ -0,0 +1,293 @@
+import { AudioFeatureName, AudioFeatures, AudioFrameInput, FeatureExtractorOptions } from '../types';
+import {
+  getBufferLength,
+  getDataFormat,
+  getDecibelRange,
+  getSampleRate,
+  toLinearMagnitude,
+  toTimeSample
+} from './dataFormat';
+import { hzToMel, melToHz } from './frequencyBands';
+
+const ALL_FEATURES: AudioFeatureName[] = [
+  'energy', 'rms', 'zcr', 'crest', 'centroid', 'spread', 'flatness', 'rolloff', 'flux', 'mfcc', 'chroma'
+];
+const TIME_FEATURES: AudioFeatureName[] = ['energy', 'rms', 'zcr', 'crest'];
+
+// Floors for logs, so silent bins don't produce -Infinity
+const MIN_POWER = 1e-20;
+const MIN_MEL_ENERGY = 1e-10;
+
+// Chroma covers C2 to C8; lower bins are too coarse to tell semitones apart
+const CHROMA_MIN_FREQUENCY = 65.41;
+const CHROMA_MAX_FREQUENCY = 4186;
+
+interface MelFilter {
+  start: number;            // First bin of the filter
+  weights: Float32Array;    // Triangle weights from the first bin on
+}
+
+/**
+ * Triangular filters with centres evenly spaced in mels, each rising from the
+ * previous centre and falling to the next
+ */
+const createMelFilterBank = (
+  bandCount: number,
+  bufferLength: number,
+  sampleRate: number,
+  minFrequency: number,
+  maxFrequency: number
+): MelFilter[] => {
+  const binWidth = sampleRate / 2 / bufferLength;
+  const low = hzToMel(minFrequency);
+  const step = (hzToMel(maxFrequency) - low) / (bandCount + 1);
+  const edges = Array.from({ length: bandCount + 2 }, (_, index) => melToHz(low + index * step));
+
+  return Array.from({ length: bandCount }, (_, band) => {
+    const [left, center, right] = [edges[band], edges[band + 1], edges[band + 2]];
+    const start = Math.max(Math.ceil(left / binWidth), 0);
+    const end = Math.min(Math.floor(right / binWidth), bufferLength - 1);
+    const weights = new Float32Array(Math.max(end - start + 1, 0));
+
+    for (let bin = start; bin <= end; bin++) {
+      const frequency = bin * binWidth;
+      weights[bin - start] = frequency <= center
+        ? (frequency - left) / (center - left)
+        : (right - frequency) / (right - center);
+    }
+
+    return { start, weights };
+  });
+};
+
+/**
+ * Orthonormal DCT-II of the first `count` coefficients
+ */
+const dct = (values: number[], count: number): number[] => {
+  const size = values.length;
+
+  return Array.from({ length: Math.min(count, size) }, (_, n) => {
+    let sum = 0;
+    for (let m = 0; m < size; m++) {
+      sum += values[m] * Math.cos(Math.PI * n * (m + 0.5) / size);
+    }
+    return sum * Math.sqrt((n === 0 ? 1 : 2) / size);
+  });
+};
+
+/**
+ * Per-frame audio feature extraction.
+ *
+ * Computes only the requested features: time-domain ones from the samples,
+ * spectral ones from linear magnitudes of the frequency data (byte or float).
+ * Keeps the previous spectrum for spectral flux, so use one extractor per stream.
+ */
+export class FeatureExtractor {
+  private options: Required<Omit<FeatureExtractorOptions, 'maxFrequency'>> & Pick<FeatureExtractorOptions, 'maxFrequency'>;
+  private previousMagnitudes: Float32Array | null = null;
+  private melFilters: MelFilter[] = [];
+  private melFilterKey = '';
+
+  constructor(options: FeatureExtractorOptions = {}) {
+    this.options = {
+      features: options.features ?? ALL_FEATURES,
+      rolloffPercent: options.rolloffPercent ?? 0.85,
+      mfccCount: options.mfccCount ?? 13,
+      melBandCount: options.melBandCount ?? 26,
+      minFrequency: options.minFrequency ?? 0,
+      maxFrequency: options.maxFrequency,
+      referenceFrequency: options.referenceFrequency ?? 440
+    };
+  }
+
+  /**
+   * Extract the requested features of a live or plain frame
+   */
+  public extract(audioData: AudioFrameInput): AudioFeatures {
+    const { features } = this.options;
+    const requested = new Set(features);
+    const result: AudioFeatures = {};
+
+    if (TIME_FEATURES.some(feature => requested.has(feature))) {
+      Object.assign(result, this.extractTimeFeatures(audioData, requested));
+    }
+    if (features.some(feature => !TIME_FEATURES.includes(feature))) {
+      Object.assign(result, this.extractSpectralFeatures(audioData, requested));
+    }
+
+    return result;
+  }
+
+  /**
+   * Update options. Fields left undefined keep their current values.
+   */
+  public updateOptions(options: Partial<FeatureExtractorOptions>): void {
+    const previous = this.options;
+    this.options = {
+      features: options.features ?? previous.features,
+      rolloffPercent: options.rolloffPercent ?? previous.rolloffPercent,
+      mfccCount: options.mfccCount ?? previous.mfccCount,
+      melBandCount: options.melBandCount ?? previous.melBandCount,
+      minFrequency: options.minFrequency ?? previous.minFrequency,
+      maxFrequency: options.maxFrequency ?? previous.maxFrequency,
+      referenceFrequency: options.referenceFrequency ?? previous.referenceFrequency
+    };
+  }
+
+  /**
+   * Forget the previous spectrum, so the next flux starts from silence
+   */
+  public reset(): void {
+    this.previousMagnitudes = null;
+  }
+
+  private extractTimeFeatures(audioData: AudioFrameInput, requested: Set<AudioFeatureName>): AudioFeatures {
+    const { timeData } = audioData;
+    const format = getDataFormat(timeData);
+    const length = timeData.length;
+
+    let sum = 0;
+    let peak = 0;
+    let crossings = 0;
+    let previous = 0;
+
+    for (let i = 0; i < length; i++) {
+      const sample = toTimeSample(timeData[i], format);
+      sum += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+
+      if (i > 0 && (sample >= 0) !== (previous >= 0)) {
+        crossings++;
+      }
+      previous = sample;
+    }
+
+    const energy = length > 0 ? sum / length : 0;
+    const rms = Math.sqrt(energy);
+    const result: AudioFeatures = {};
+
+    if (requested.has('energy')) result.energy = energy;
+    if (requested.has('rms')) result.rms = rms;
+    if (requested.has('zcr')) result.zcr = length > 1 ? crossings / (length - 1) : 0;
+    if (requested.has('crest')) result.crest = rms > 0 ? peak / rms : 0;
+
+    return result;
+  }
+
+  private extractSpectralFeatures(audioData: AudioFrameInput, requested: Set<AudioFeatureName>): AudioFeatures {
+    const { frequencyData } = audioData;
+    const { rolloffPercent, mfccCount, referenceFrequency } = this.options;
+    const format = getDataFormat(frequencyData);
+    const decibels = getDecibelRange(audioData);
+    const bufferLength = getBufferLength(audioData);
+    const sampleRate = getSampleRate(audioData);
+    const binWidth = sampleRate / 2 / bufferLength;
+
+    const magnitudes = new Float32Array(bufferLength);
+    for (let i = 0; i < bufferLength; i++) {
+      magnitudes[i] = toLinearMagnitude(frequencyData[i], format, decibels.min, decibels.max);
+    }
+
+    let magnitudeSum = 0;
+    let weightedSum = 0;
+    let powerSum = 0;
+    let logPowerSum = 0;
+
+    for (let i = 0; i < bufferLength; i++) {
+      const power = magnitudes[i] * magnitudes[i];
+      magnitudeSum += magnitudes[i];
+      weightedSum += i * binWidth * magnitudes[i];
+      powerSum += power;
+      // Logs stay finite where a product of bins would overflow
+      logPowerSum += Math.log(Math.max(power, MIN_POWER));
+    }
+
+    const centroid = magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+    const result: AudioFeatures = {};
+
+    if (requested.has('centroid')) result.centroid = centroid;
+
+    if (requested.has('spread')) {
+      let variance = 0;
+      for (let i = 0; i < bufferLength; i++) {
+        variance += Math.pow(i * binWidth - centroid, 2) * magnitudes[i];
+      }
+      result.spread = magnitudeSum > 0 ? Math.sqrt(variance / magnitudeSum) : 0;
+    }
+
+    if (requested.has('flatness')) {
+      const mean = powerSum / bufferLength;
+      result.flatness = mean > 0 ? Math.min(Math.exp(logPowerSum / bufferLength) / mean, 1) : 0;
+    }
+
+    if (requested.has('rolloff')) {
+      const target = rolloffPercent * powerSum;
+      let cumulative = 0;
+      let bin = 0;
+      for (; bin < bufferLength - 1; bin++) {
+        cumulative += magnitudes[bin] * magnitudes[bin];
+        if (cumulative >= target) break;
+      }
+      result.rolloff = powerSum > 0 ? bin * binWidth : 0;
+    }
+
+    if (requested.has('flux')) {
+      const previous = this.previousMagnitudes;
+      let flux = 0;
+
+      // Only increases count, so flux rises on onsets rather than on decays
+      if (previous && previous.length === bufferLength) {
+        for (let i = 0; i < bufferLength; i++) {
+          flux += Math.max(magnitudes[i] - previous[i], 0);
+        }
+      }
+      result.flux = flux;
+    }
+    this.previousMagnitudes = magnitudes;
+
+    if (requested.has('mfcc')) {
+      const filters = this.getMelFilters(bufferLength, sampleRate);
+      const logEnergies = filters.map(({ start, weights }) => {
+        let energy = 0;
+        for (let i = 0; i < weights.length; i++) {
+          energy += weights[i] * magnitudes[start + i] * magnitudes[start + i];
+        }
+        return Math.log(Math.max(energy, MIN_MEL_ENERGY));
+      });
+      result.mfcc = dct(logEnergies, mfccCount);
+    }
+
+    if (requested.has('chroma')) {
+      const chroma = new Array(12).fill(0);
+      const first = Math.max(Math.ceil(CHROMA_MIN_FREQUENCY / binWidth), 1);
+      const last = Math.min(Math.floor(CHROMA_MAX_FREQUENCY / binWidth), bufferLength - 1);
+
+      for (let bin = first; bin <= last; bin++) {
+        // Semitones from A4, shifted so C is pitch class 0
+        const semitone = Math.round(12 * Math.log2(bin * binWidth / referenceFrequency)) + 9;
+        chroma[((semitone % 12) + 12) % 12] += magnitudes[bin] * magnitudes[bin];
+      }
+
+      const highest = Math.max(...chroma);
+      result.chroma = chroma.map(value => highest > 0 ? value / highest : 0);
+    }
+
+    return result;
+  }
+
+  /**
+   * Mel filters for the current frame layout, rebuilt when it or the options change
+   */
+  private getMelFilters(bufferLength: number, sampleRate: number): MelFilter[] {
+    const { melBandCount, minFrequency } = this.options;
+    const maxFrequency = Math.min(this.options.maxFrequency ?? sampleRate / 2, sampleRate / 2);
+    const key = [melBandCount, bufferLength, sampleRate, minFrequency, maxFrequency].join(':');
+
+    if (key !== this.melFilterKey) {
+      this.melFilters = createMelFilterBank(melBandCount, bufferLength, sampleRate, minFrequency, maxFrequency);
+      this.melFilterKey = key;
+    }
+
+    return this.melFilters;
+  }
+}
@@ -0,0 +1,157 @@
+import { AudioVisualizerError, LoadProgress } from '../types';
+import { createAudioError } from './errors';
+
+interface FetchAudioOptions {
+  signal?: AbortSignal;                          // Signal to cancel the download
+  onProgress?: (progress: LoadProgress) => void; // Called as bytes arrive
+}
+
+/**
+ * Whether an error was caused by an aborted request
+ */
+export const isAbortError = (err: any): boolean =>
+  !!err && (err.name === 'AbortError' || err.code === 'aborted');
+
+/**
+ * Error used to reject loads that were cancelled
+ */
+export const createAbortError = (cause?: unknown): AudioVisualizerError =>
+  createAudioError('aborted', 'Audio loading was aborted', cause);
+
+/**
+ * Download audio data from a URL, reporting progress as chunks arrive
+ */
+export const fetchAudioData = async (
+  url: string,
+  options: FetchAudioOptions = {}
+): Promise<ArrayBuffer> => {
+  const { signal, onProgress } = options;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (err: any) {
+    if (isAbortError(err)) {
+      throw createAbortError(err);
+    }
+    throw createAudioError('network', err.message || `Failed to fetch ${url}`, err);
+  }
+
+  if (!response.ok) {
+    throw createAudioError(
+      'network',
+      `Failed to fetch ${url}: ${response.status} ${response.statusText}`,
+      undefined,
+      response.status
+    );
+  }
+
+  const contentLength = Number(response.headers.get('content-length'));
+  const total = contentLength > 0 ? contentLength : null;
+
+  const reportProgress = (loaded: number) => {
+    onProgress?.({
+      phase: 'downloading',
+      loaded,
+      total,
+      progress: total ? Math.min(loaded / total, 1) : 0
+    });
+  };
+
+  reportProgress(0);
+
+  try {
+    // Fall back to a single read when the body can't be streamed
+    if (!response.body) {
+      const arrayBuffer = await response.arrayBuffer();
+      reportProgress(arrayBuffer.byteLength);
+      return arrayBuffer;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      chunks.push(value);
+      loaded += value.byteLength;
+      reportProgress(loaded);
+    }
+
+    // Join chunks into one buffer for decoding
+    const data = new Uint8Array(loaded);
+    let position = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, position);
+      position += chunk.byteLength;
+    }
+
+    return data.buffer;
+  } catch (err: any) {
+    if (isAbortError(err)) {
+      throw createAbortError(err);
+    }
+    throw createAudioError('network', err.message || `Failed to download ${url}`, err);
+  }
+};
+
+/**
+ * Wait until a media element can start playing.
+ * On failure or cancellation the element's source is released.
+ */
+export const waitForMediaElement = (
+  element: HTMLMediaElement,
+  signal?: AbortSignal
+): Promise<void> => new Promise<void>((resolve, reject) => {
+  const cleanup = () => {
+    element.removeEventListener('canplay', handleCanPlay);
+    element.removeEventListener('error', handleError);
+    signal?.removeEventListener('abort', handleAbort);
+  };
+
+  const release = () => {
+    element.removeAttribute('src');
+    element.load();
+  };
+
+  const handleCanPlay = () => {
+    cleanup();
+    resolve();
+  };
+
+  const handleError = () => {
+    cleanup();
+    const mediaError = element.error;
+    const unsupported = mediaError?.code === 4; // MEDIA_ERR_SRC_NOT_SUPPORTED
+    release();
+    reject(createAudioError(
+      unsupported ? 'unsupported-codec' : 'network',
+      mediaError?.message || (unsupported ? 'Unsupported audio source' : 'Failed to load audio stream'),
+      mediaError
+    ));
+  };
+
+  const handleAbort = () => {
+    cleanup();
+    release();
+    reject(createAbortError());
+  };
+
+  if (signal?.aborted) {
+    handleAbort();
+    return;
+  }
+
+  // Cached sources may already be playable
+  if (element.readyState >= 3) { // HAVE_FUTURE_DATA
+    resolve();
+    return;
+  }
+
+  element.addEventListener('canplay', handleCanPlay);
+  element.addEventListener('error', handleError);
+  signal?.addEventListener('abort', handleAbort);
+});
@@ -1,61 +1,94 @@
-import { AudioData, DataProcessorOptions, VisualizerProcessedData } from '../types';
+import {
+  AudioFrameInput,
+  BandAggregation,
+  DataProcessorOptions,
+  FrequencyBand,
+  FrequencyBandPreset,
+  StereoMetrics,
+  VisualizerProcessedData
+} from '../types';
+import {
+  getBufferLength,
+  getDataFormat,
+  getDecibelRange,
+  getSampleRate,
+  toFrequencyLevel,
+  toTimeSample
+} from './dataFormat';
+import { aggregateFrequencyBands, resampleSpectrum, resolveFrequencyBands } from './frequencyBands';
 
 /**
- * Processes raw audio data into format suitable for visualization
+ * Processes raw audio data into format suitable for visualization.
+ * Accepts byte or float data; without normalization the values keep their units (bytes or dBFS).
+ * Works on live frames from the analyser or plain frames with a sample rate.
  */
 export const processAudioData = (
-  audioData: AudioData,
+  audioData: AudioFrameInput,
   options: DataProcessorOptions = {}
 ): VisualizerProcessedData => {
   const { 
     normalize = true, 
     logarithmic = false, 
-    smoothing = 0.5
+    smoothing = 0.5,
+    frequencyScale = 'linear',
+    minFrequency,
+    maxFrequency,
+    barCount,
+    frequencyBands,
+    bandAggregation = 'rms'
   } = options;
 
-  const { frequencyData, timeData, bufferLength } = audioData;
+  const { frequencyData, timeData } = audioData;
+  const bufferLength = getBufferLength(audioData);
+  const frequencyFormat = getDataFormat(frequencyData);
+  const timeFormat = getDataFormat(timeData);
+  const decibels = getDecibelRange(audioData);
   
   // Process frequency data
   const processedFrequencyData = new Array(bufferLength);
-  let maxFrequency = 0;
+  const levels = new Array(bufferLength);
+  let dominantFrequency = 0;
   let maxFrequencyIndex = 0;
-  let maxFrequencyValue = 0;
+  let maxLevel = 0;
 
-  // Find max value for normalization and dominant frequency
+  // Find max level (0-1) for normalization and dominant frequency
   for (let i = 0; i < bufferLength; i++) {
     const value = frequencyData[i];
+    const level = toFrequencyLevel(value, frequencyFormat, decibels.min, decibels.max);
     processedFrequencyData[i] = value;
+    levels[i] = level;
     
-    if (value > maxFrequencyValue) {
-      maxFrequencyValue = value;
+    if (level > maxLevel) {
+      maxLevel = level;
       maxFrequencyIndex = i;
     }
   }
 
   // Calculate dominant frequency in Hz
   // Assuming a standard 44100Hz sample rate and fftSize
-  const nyquist = audioData.audioContext.sampleRate / 2;
-  maxFrequency = maxFrequencyIndex * nyquist / bufferLength;
+  const sampleRate = getSampleRate(audioData);
+  const nyquist = sampleRate / 2;
+  dominantFrequency = maxFrequencyIndex * nyquist / bufferLength;
 
-  // Process time domain data
-  const processedTimeData = new Array(bufferLength);
+  // Process time domain data, which holds fftSize samples rather than bufferLength
+  const timeLength = timeData.length;
+  const processedTimeData = new Array(timeLength);
   let volumeSum = 0;
   
-  for (let i = 0; i < bufferLength; i++) {
-    const value = timeData[i];
-    // Convert from 0-255 to -1 to 1
-    const normalizedValue = (value / 128) - 1;
+  for (let i = 0; i < timeLength; i++) {
+    // Convert to -1 to 1
+    const normalizedValue = toTimeSample(timeData[i], timeFormat);
     processedTimeData[i] = normalizedValue;
     volumeSum += Math.abs(normalizedValue);
   }
 
   // Calculate current volume level (0-1)
-  const volume = volumeSum / bufferLength;
+  const volume = volumeSum / Math.max(timeLength, 1);
   
   // Apply normalization if requested
-  if (normalize && maxFrequencyValue > 0) {
+  if (normalize && maxLevel > 0) {
     for (let i = 0; i < bufferLength; i++) {
-      processedFrequencyData[i] = processedFrequencyData[i] / maxFrequencyValue;
+      processedFrequencyData[i] = levels[i] / maxLevel;
       
       // Apply logarithmic scaling if requested
       if (logarithmic) {
@@ -68,58 +101,145 @@ export const processAudioData = (
     }
   }
 
+  // Stereo metrics from the first two channels
+  let stereo: StereoMetrics | undefined;
+  if (audioData.channels && audioData.channels.length >= 2) {
+    const [left, right] = audioData.channels;
+    const leftFormat = getDataFormat(left.timeData);
+    const rightFormat = getDataFormat(right.timeData);
+
+    stereo = calculateStereoMetrics(
+      Array.from(left.timeData, value => toTimeSample(value, leftFormat)),
+      Array.from(right.timeData, value => toTimeSample(value, rightFormat))
+    );
+  }
+
+  // Resample onto the requested frequency axis, or keep the FFT bins
+  let frequencyPoints: number[] = processedFrequencyData;
+  let frequencies: number[];
+  const resample = frequencyScale !== 'linear' || minFrequency !== undefined ||
+    maxFrequency !== undefined || barCount !== undefined;
+
+  if (resample) {
+    const binWidth = nyquist / bufferLength;
+    const low = Math.max(minFrequency ?? (frequencyScale === 'linear' ? 0 : 20), 0);
+    const high = Math.min(maxFrequency ?? nyquist, nyquist);
+    const binsInRange = Math.max(Math.floor(high / binWidth) - Math.ceil(low / binWidth) + 1, 1);
+
+    const resampled = resampleSpectrum(processedFrequencyData, sampleRate, {
+      scale: frequencyScale,
+      minFrequency: low,
+      maxFrequency: high,
+      count: Math.max(Math.round(barCount ?? binsInRange), 1),
+      bufferLength
+    });
+    frequencyPoints = resampled.values;
+    frequencies = resampled.frequencies;
+  } else {
+    frequencies = Array.from({ length: bufferLength }, (_, index) => index * nyquist / bufferLength);
+  }
+
+  // Band levels (0-1), combining every bin of each band
+  let bands: number[] | undefined;
+  let bandFrequencies: FrequencyBand[] | undefined;
+  if (frequencyBands) {
+    bandFrequencies = resolveFrequencyBands(frequencyBands, sampleRate);
+    bands = aggregateFrequencyBands(frequencyData, bandFrequencies, sampleRate, {
+      format: frequencyFormat,
+      aggregation: bandAggregation,
+      bufferLength,
+      minDecibels: decibels.min,
+      maxDecibels: decibels.max
+    }).map(value => toFrequencyLevel(value, frequencyFormat, decibels.min, decibels.max));
+  }
+
   return {
-    frequencyData: processedFrequencyData,
+    frequencyData: frequencyPoints,
+    frequencies,
     timeData: processedTimeData,
     volume,
-    peakLevel: maxFrequencyValue / 255, // Normalize to 0-1
+    peakLevel: maxLevel,
     isActive: volume > 0.05, // Consider active if volume is above threshold
     dominant: {
-      frequency: maxFrequency,
-      amplitude: maxFrequencyValue / 255, // Normalize to 0-1
+      frequency: dominantFrequency,
+      amplitude: maxLevel,
       index: maxFrequencyIndex
-    }
+    },
+    stereo,
+    bands,
+    bandFrequencies
   };
 };
 
 /**
- * Extract frequency bands from frequency data
+ * Extract frequency bands from frequency data, or from a frame (byte or float)
+ * using its own sample rate, length and decibel range
  * Can be used to create equalizer-like visualizations
+ * Each band combines every bin between its edges; centre frequencies get edges halfway between neighbours.
+ * Values are returned in the units of the input (bytes or dBFS).
+ * Byte data is read in the analyser's decibel range, so pass the range it was captured with.
  */
 export const extractFrequencyBands = (
-  frequencyData: Uint8Array | number[],
-  bands: number[] = [60, 170, 310, 600, 1000, 3000, 6000, 12000, 14000, 16000],
+  input: Uint8Array | Float32Array | number[] | AudioFrameInput,
+  bands: number[] | FrequencyBand[] | FrequencyBandPreset = [60, 170, 310, 600, 1000, 3000, 6000, 12000, 14000, 16000],
   sampleRate: number = 44100,
-  bufferLength: number = frequencyData.length
+  bufferLength?: number,
+  aggregation: BandAggregation = 'rms',
+  decibels: { min: number; max: number } = { min: -100, max: -30 }
 ): number[] => {
-  const nyquist = sampleRate / 2;
-  const result = new Array(bands.length);
-  
-  for (let i = 0; i < bands.length; i++) {
-    const index = Math.round(bands[i] * bufferLength / nyquist);
-    result[i] = frequencyData[Math.min(index, bufferLength - 1)];
+  let frequencyData: Uint8Array | Float32Array | number[];
+
+  if ('frequencyData' in input) {
+    frequencyData = input.frequencyData;
+    sampleRate = getSampleRate(input);
+    bufferLength = bufferLength ?? getBufferLength(input);
+    decibels = getDecibelRange(input);
+  } else {
+    frequencyData = input;
   }
-  
-  return result;
+
+  return aggregateFrequencyBands(frequencyData, resolveFrequencyBands(bands, sampleRate), sampleRate, {
+    format: getDataFormat(frequencyData),
+    aggregation,
+    bufferLength: bufferLength ?? frequencyData.length,
+    minDecibels: decibels.min,
+    maxDecibels: decibels.max
+  });
 };
 
 /**
  * Calculate audio spectrum characteristics
+ * from byte magnitudes, or from a frame (byte or float) using its own sample rate
  */
 export const calculateSpectrumCharacteristics = (
-  frequencyData: Uint8Array | number[],
+  input: Uint8Array | number[] | AudioFrameInput,
   sampleRate: number = 44100
 ): { 
   centroid: number; 
   spread: number; 
   flatness: number;
 } => {
+  let frequencyData: Uint8Array | number[];
+
+  if ('frequencyData' in input) {
+    // Levels (0-1) work for float data too; the characteristics don't depend on scale
+    const format = getDataFormat(input.frequencyData);
+    const decibels = getDecibelRange(input);
+    frequencyData = Array.from(
+      input.frequencyData.subarray(0, getBufferLength(input)),
+      value => toFrequencyLevel(value, format, decibels.min, decibels.max)
+    );
+    sampleRate = getSampleRate(input);
+  } else {
+    frequencyData = input;
+  }
+
   const bufferLength = frequencyData.length;
   const nyquist = sampleRate / 2;
   
   let sum = 0;
   let weightedSum = 0;
-  let product = 1;
+  let logSum = 0;
   
   for (let i = 0; i < bufferLength; i++) {
     const frequency = i * nyquist / bufferLength;
@@ -128,10 +248,9 @@ export const calculateSpectrumCharacteristics = (
     sum += amplitude;
     weightedSum += frequency * amplitude;
     
-    // Avoid zero in product calculation
-    if (amplitude > 0) {
-      product *= amplitude;
-    }
+    // Sum logs rather than multiplying, which overflows on real spectra.
+    // Silent bins get a tiny floor so they pull the geometric mean down instead of being skipped.
+    logSum += Math.log(Math.max(amplitude, 1e-10));
   }
   
   // Spectral centroid (weighted average of frequencies)
@@ -149,9 +268,120 @@ export const calculateSpectrumCharacteristics = (
   }
   
   // Spectral flatness (geometric mean / arithmetic mean)
-  const geometricMean = sum > 0 ? Math.pow(product, 1 / bufferLength) : 0;
+  const geometricMean = sum > 0 ? Math.exp(logSum / bufferLength) : 0;
   const arithmeticMean = sum / bufferLength;
   const flatness = arithmeticMean > 0 ? geometricMean / arithmeticMean : 0;
   
   return { centroid, spread, flatness };
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Calculate stereo metrics from left and right samples (-1 to 1)
+ */
+export const calculateStereoMetrics = (
+  left: Float32Array | number[],
+  right: Float32Array | number[]
+): StereoMetrics => {
+  const length = Math.min(left.length, right.length);
+  const goniometer: [number, number][] = new Array(length);
+
+  let leftPower = 0;
+  let rightPower = 0;
+  let crossPower = 0;
+
+  for (let i = 0; i < length; i++) {
+    const l = left[i];
+    const r = right[i];
+
+    leftPower += l * l;
+    rightPower += r * r;
+    crossPower += l * r;
+
+    // Rotate by 45 degrees so mono is vertical and out-of-phase is horizontal
+    goniometer[i] = [(r - l) / Math.SQRT2, (l + r) / Math.SQRT2];
+  }
+
+  // Balance from channel RMS levels
+  const leftRms = Math.sqrt(leftPower / Math.max(length, 1));
+  const rightRms = Math.sqrt(rightPower / Math.max(length, 1));
+  const totalRms = leftRms + rightRms;
+  const balance = totalRms > 0 ? (rightRms - leftRms) / totalRms : 0;
+
+  // Normalized cross-correlation (phase meter)
+  const denominator = Math.sqrt(leftPower * rightPower);
+  const correlation = denominator > 0 ? crossPower / denominator : 0;
+
+  return { balance, correlation, goniometer };
+};
+
+/**
+ * Stateful processor that runs processAudioData and smooths
+ * frequency data, time data, bands, volume and peak level between frames
+ */
+export const createAudioProcessor = (initialOptions: DataProcessorOptions = {}) => {
+  let options = initialOptions;
+
+  // Previous values for smoothing
+  let prevValues: VisualizerProcessedData | null = null;
+
+  const process = (audioData: AudioFrameInput): VisualizerProcessedData => {
+    const processed = processAudioData(audioData, options);
+
+    // Apply smoothing if enabled
+    if (options.smoothing && options.smoothing > 0 && prevValues) {
+      const smoothingFactor = Math.min(Math.max(options.smoothing, 0), 1);
+      const inverseFactor = 1 - smoothingFactor;
+      const smooth = (previous: number, current: number) =>
+        (smoothingFactor * previous) + (inverseFactor * current);
+
+      // When fftSize changes the bins no longer line up,
+      // so the new frame starts a fresh history instead of blending mismatched bins.
+      if (prevValues.frequencyData.length === processed.frequencyData.length) {
+        for (let i = 0; i < processed.frequencyData.length; i++) {
+          processed.frequencyData[i] = smooth(prevValues.frequencyData[i], processed.frequencyData[i]);
+        }
+      }
+
+      if (prevValues.timeData.length === processed.timeData.length) {
+        for (let i = 0; i < processed.timeData.length; i++) {
+          processed.timeData[i] = smooth(prevValues.timeData[i], processed.timeData[i]);
+        }
+      }
+
+      const { bands } = processed;
+      const previousBands = prevValues.bands;
+      if (bands && previousBands && previousBands.length === bands.length) {
+        for (let i = 0; i < bands.length; i++) {
+          bands[i] = smooth(previousBands[i], bands[i]);
+        }
+      }
+
+      processed.volume = smooth(prevValues.volume, processed.volume);
+      processed.peakLevel = smooth(prevValues.peakLevel, processed.peakLevel);
+    }
+
+    // Save current values for next frame's smoothing
+    prevValues = {
+      ...processed,
+      frequencyData: [...processed.frequencyData],
+      timeData: [...processed.timeData],
+      bands: processed.bands && [...processed.bands]
+    };
+
+    return processed;
+  };
+
+  const updateOptions = (newOptions: Partial<DataProcessorOptions>) => {
+    options = { ...options, ...newOptions };
+  };
+
+  const reset = () => {
+    prevValues = null;
+  };
+
+  return {
+    process,
+    updateOptions,
+    reset
+  };
+};
@@ -0,0 +1,63 @@
+import { createAudioError } from './errors';
+
+/**
+ * Media element sources created so far, per audio context.
+ * A media element can only be wrapped by createMediaElementSource once,
+ * so the node is cached and reused on later connections.
+ */
+const mediaElementSources = new WeakMap<
+  BaseAudioContext,
+  WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>
+>();
+
+/**
+ * Get the source node for a media element, creating it on first use
+ */
+export const getMediaElementSource = (
+  audioContext: AudioContext,
+  element: HTMLMediaElement
+): MediaElementAudioSourceNode => {
+  let sources = mediaElementSources.get(audioContext);
+
+  if (!sources) {
+    sources = new WeakMap();
+    mediaElementSources.set(audioContext, sources);
+  }
+
+  let source = sources.get(element);
+
+  if (!source) {
+    source = audioContext.createMediaElementSource(element);
+    sources.set(element, source);
+  }
+
+  return source;
+};
+
+/**
+ * Create an AudioContext, falling back to the prefixed constructor in older Safari
+ */
+export const createAudioContext = (): AudioContext =>
+  new (window.AudioContext || (window as any).webkitAudioContext)();
+
+/**
+ * Make sure a context is running before audio is routed through it
+ */
+export const resumeAudioContext = async (audioContext: AudioContext): Promise<void> => {
+  if (audioContext.state === 'closed') {
+    throw createAudioError('context-closed', 'Audio context has been closed');
+  }
+
+  if (audioContext.state === 'suspended') {
+    try {
+      await audioContext.resume();
+    } catch (err) {
+      throw createAudioError('context-suspended', 'Audio context could not be resumed', err);
+    }
+  }
+
+  // Autoplay policies keep the context suspended until a user gesture
+  if ((audioContext.state as AudioContextState) === 'suspended') {
+    throw createAudioError('context-suspended', 'Audio context is suspended until a user gesture');
+  }
+};
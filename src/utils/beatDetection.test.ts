@@ -0,0 +1,100 @@
+import { TempoAnalyzer, createBeatAnalyzer } from './beatDetection';
+import { TempoAnalyzerOptions } from '../types';
+
+// Beats at a steady tempo for `seconds`, with optional timing jitter in seconds
+const analyze = (bpm: number, seconds: number = 8, jitter: number = 0, options: TempoAnalyzerOptions = {}) => {
+  const analyzer = new TempoAnalyzer(options);
+  const period = 60 / bpm;
+  let time = 0;
+
+  for (let n = 0; n * period < seconds; n++) {
+    time = n * period + jitter * Math.sin(n * 2.3);
+    analyzer.addBeat(time);
+  }
+  return analyzer.getEstimate(time);
+};
+
+describe('TempoAnalyzer', () => {
+  it('keeps a steady 175 BPM instead of halving it', () => {
+    const { tempo, confidence } = analyze(175);
+
+    expect(tempo).toBeCloseTo(175, 0);
+    expect(confidence).toBeGreaterThan(0.8);
+  });
+
+  it('finds steady tempos across the range', () => {
+    [70, 90, 120, 140, 180].forEach(bpm => {
+      expect(Math.round(analyze(bpm, 8, 0.005).tempo)).toBe(bpm);
+    });
+  });
+
+  it('lets preferredTempo choose between octaves only when the beats fit both', () => {
+    // Beats at 180 BPM fit a 90 BPM grid only every other beat
+    expect(Math.round(analyze(180, 8, 0, { preferredTempo: 90 }).tempo)).toBe(180);
+    // Beats at 90 BPM all sit on a 180 BPM grid as well
+    expect(Math.round(analyze(90, 8, 0, { preferredTempo: 90 }).tempo)).toBe(90);
+    expect(Math.round(analyze(90, 8, 0, { preferredTempo: 170 }).tempo)).toBe(180);
+  });
+
+  it('predicts the next beat on the grid', () => {
+    const analyzer = new TempoAnalyzer();
+    for (let n = 0; n < 16; n++) {
+      analyzer.addBeat(n * 0.5);
+    }
+    const { phase, nextBeatTime } = analyzer.getEstimate(7.6);
+
+    expect(phase).toBeCloseTo(0.2, 2);
+    expect(nextBeatTime).toBeCloseTo(8, 2);
+  });
+});
+
+describe('createBeatAnalyzer', () => {
+  const fps = 60;
+
+  // Byte frames with a bass hit every half second (120 BPM)
+  const frameAt = (time: number) => {
+    const frequencyData = new Uint8Array(1024);
+    const sinceBeat = time % 0.5;
+    if (sinceBeat < 1 / fps) {
+      frequencyData.fill(255, 2, 7);
+    }
+    return { frequencyData, timeData: new Uint8Array(2048).fill(128), sampleRate: 44100, time };
+  };
+
+  it('starts the tempo over when the clock goes back', () => {
+    const analyzer = createBeatAnalyzer();
+    for (let n = 0; n < 10 * fps; n++) {
+      analyzer.analyzeBeat(frameAt(100 + n / fps));
+    }
+    expect(analyzer.analyzeBeat(frameAt(110)).tempo).toBe(120);
+
+    const afterRewind = analyzer.analyzeBeat(frameAt(0.25));
+    expect(afterRewind.tempo).toBe(0);
+    expect(afterRewind.nextBeatTime).toBeNull();
+  });
+
+  it('keeps options given as undefined', () => {
+    const analyzer = createBeatAnalyzer({ threshold: 0.2 });
+    analyzer.updateOptions({ threshold: undefined, decayRate: undefined, historyWindow: undefined, frequencyRange: undefined });
+
+    let beats = 0;
+    for (let n = 0; n < 4 * fps; n++) {
+      if (analyzer.analyzeBeat(frameAt(n / fps)).isBeat) beats += 1;
+    }
+    expect(beats).toBeGreaterThanOrEqual(7);
+  });
+
+  it('runs with empty history windows', () => {
+    const analyzers = [
+      createBeatAnalyzer({ historyWindow: 0 }),
+      createBeatAnalyzer({ onsetDetector: 'spectral-flux', medianWindow: 0 }),
+      createBeatAnalyzer({ onsetDetector: 'energy', historyWindow: -1 })
+    ];
+
+    analyzers.forEach(analyzer => {
+      for (let n = 0; n < fps; n++) {
+        expect(() => analyzer.analyzeBeat(frameAt(n / fps))).not.toThrow();
+      }
+    });
+  });
+});
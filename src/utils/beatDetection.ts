@@ -1,8 +1,27 @@
-import { AudioData } from '../types';
+import {
+  AudioFrameInput,
+  BeatBandInfo,
+  BeatBandOptions,
+  OnsetDetector,
+  OnsetDetectorOptions,
+  OnsetMethod,
+  TempoAnalyzerOptions,
+  TempoEstimate
+} from '../types';
+import {
+  getBufferLength,
+  getDataFormat,
+  getDecibelRange,
+  getFrameTime,
+  getSampleRate,
+  toFrequencyLevel
+} from './dataFormat';
+import { NoveltyOnsetDetector } from './onsetDetection';
 
 interface BeatDetectorOptions {
   threshold?: number;      // Detection threshold (0-1)
-  decayRate?: number;      // Energy decay rate
+  decayRate?: number;      // Energy decay rate per 1/60 s
+  historyWindow?: number;  // Seconds of energy averaged
   minTimeBetweenBeats?: number; // Minimum time between beats (ms)
   frequencyRange?: {      // Frequency range for beat detection
     low: number;          // Low frequency (Hz)
@@ -15,60 +34,91 @@ interface BeatInfo {
   energy: number;         // Current energy
   averageEnergy: number;  // Average energy
   delta: number;          // Energy difference
-  time: number;           // Beat timestamp
+  time: number;           // Frame time in seconds on the audio clock
+}
+
+interface BeatAnalyzerOptions extends OnsetDetectorOptions, TempoAnalyzerOptions {
+  bands?: Record<string, BeatBandOptions>;    // Bands detected separately
+  onsetDetector?: OnsetMethod | OnsetDetector; // Onset detection strategy (default: 'energy')
 }
 
 /**
- * Beat detection class for audio data
+ * Beat detection class for audio data: band energy against its decayed moving average.
+ * The 'energy' onset detection strategy.
+ *
+ * Timing follows the frame time (the audio clock for live frames), so the history window,
+ * decay and refractory period mean the same at any frame rate.
  */
-export class BeatDetector {
+export class BeatDetector implements OnsetDetector {
   private options: Required<BeatDetectorOptions>;
   private averageEnergy: number = 0;
-  private lastBeatTime: number = 0;
-  private energyHistory: number[] = [];
-  private readonly historySize = 43; // About 1s at 60fps
+  private lastBeatTime: number = -Infinity;
+  private lastTime: number | null = null;
+  private lastInfo: BeatInfo | null = null;
+  // Energy of each frame with the time it covers, for a time-weighted average
+  private energyHistory: { time: number; energy: number; duration: number }[] = [];
   
   constructor(options: BeatDetectorOptions = {}) {
     this.options = {
       threshold: options.threshold ?? 0.15,
       decayRate: options.decayRate ?? 0.98,
+      historyWindow: options.historyWindow ?? 1,
       minTimeBetweenBeats: options.minTimeBetweenBeats ?? 250,
       frequencyRange: options.frequencyRange ?? {
         low: 60,
         high: 120
       }
     };
-    
-    // Initialize energy history array
-    this.energyHistory = new Array(this.historySize).fill(0);
   }
   
   /**
-   * Detect beats from frequency data
+   * Detect beats from frequency data (byte or float) of a live or plain frame
    */
-  public detect(audioData: AudioData | null): BeatInfo {
+  public detect(audioData: AudioFrameInput | null): BeatInfo {
     if (!audioData) {
       return {
         isBeat: false,
         energy: 0,
         averageEnergy: 0,
         delta: 0,
-        time: Date.now()
+        time: this.lastTime ?? 0
       };
     }
     
-    const { frequencyData, bufferLength, audioContext } = audioData;
+    const currentTime = getFrameTime(audioData);
+    
+    // The clock hasn't moved (e.g. paused, or called twice for one frame): nothing new to detect
+    if (this.lastInfo && currentTime === this.lastTime) {
+      return { ...this.lastInfo, isBeat: false };
+    }
+    // The clock went back, e.g. a new context: start over
+    if (this.lastTime !== null && currentTime < this.lastTime) {
+      this.reset();
+    }
+    
+    const { historyWindow, decayRate, threshold, minTimeBetweenBeats } = this.options;
+    const elapsed = this.lastTime !== null ? Math.min(currentTime - this.lastTime, historyWindow) : 0;
+    this.lastTime = currentTime;
+    
+    const { frequencyData } = audioData;
+    const bufferLength = getBufferLength(audioData);
+    const format = getDataFormat(frequencyData);
+    const decibels = getDecibelRange(audioData);
     
     // Calculate energy in specific frequency range
-    const nyquist = audioContext.sampleRate / 2;
+    const nyquist = getSampleRate(audioData) / 2;
+    // Bin indices follow bufferLength, so fftSize changes are picked up on the next call
     const lowIndex = Math.floor(this.options.frequencyRange.low * bufferLength / nyquist);
-    const highIndex = Math.ceil(this.options.frequencyRange.high * bufferLength / nyquist);
+    const highIndex = Math.min(
+      Math.ceil(this.options.frequencyRange.high * bufferLength / nyquist),
+      bufferLength - 1
+    );
     
     let energy = 0;
     
     // Calculate total energy in frequency range
     for (let i = lowIndex; i <= highIndex; i++) {
-      energy += Math.pow(frequencyData[i] / 255, 2);
+      energy += Math.pow(toFrequencyLevel(frequencyData[i], format, decibels.min, decibels.max), 2);
     }
     
     // Average if more than 1 bin
@@ -76,38 +126,45 @@ export class BeatDetector {
       energy /= (highIndex - lowIndex + 1);
     }
     
-    // Update energy history array
-    this.energyHistory.push(energy);
-    this.energyHistory.shift();
+    // Update energy history, keeping the frames within the window (none without a window)
+    this.energyHistory.push({ time: currentTime, energy, duration: elapsed });
+    while (this.energyHistory.length > 0 && this.energyHistory[0].time <= currentTime - historyWindow) {
+      this.energyHistory.shift();
+    }
     
-    // Calculate average energy
-    const averageEnergy = this.energyHistory.reduce((sum, e) => sum + e, 0) / this.historySize;
+    // Calculate average energy, each frame weighted by the time it covers
+    let weightedSum = 0;
+    let totalDuration = 0;
+    for (const entry of this.energyHistory) {
+      weightedSum += entry.energy * entry.duration;
+      totalDuration += entry.duration;
+    }
+    const averageEnergy = totalDuration > 0 ? weightedSum / totalDuration : energy;
     
-    // Update average energy with decay rate
-    this.averageEnergy = this.averageEnergy * this.options.decayRate + averageEnergy * (1 - this.options.decayRate);
+    // Update average energy with decay rate, scaled to the time since the last frame
+    const decay = Math.pow(decayRate, elapsed * 60);
+    this.averageEnergy = this.averageEnergy * decay + averageEnergy * (1 - decay);
     
     // Calculate energy difference
     const delta = energy - this.averageEnergy;
     
-    // Current time
-    const currentTime = Date.now();
-    
     // Check if it's a beat
-    const isBeat = delta > this.options.threshold && 
-                  (currentTime - this.lastBeatTime) > this.options.minTimeBetweenBeats;
+    const isBeat = delta > threshold &&
+                  (currentTime - this.lastBeatTime) * 1000 > minTimeBetweenBeats;
     
     // Update last beat time
     if (isBeat) {
       this.lastBeatTime = currentTime;
     }
     
-    return {
+    this.lastInfo = {
       isBeat,
       energy,
       averageEnergy: this.averageEnergy,
       delta,
       time: currentTime
     };
+    return this.lastInfo;
   }
   
   /**
@@ -115,113 +172,455 @@ export class BeatDetector {
    */
   public reset(): void {
     this.averageEnergy = 0;
-    this.lastBeatTime = 0;
-    this.energyHistory = new Array(this.historySize).fill(0);
+    this.lastBeatTime = -Infinity;
+    this.lastTime = null;
+    this.lastInfo = null;
+    this.energyHistory = [];
   }
   
   /**
    * Update options
    */
   public updateOptions(options: Partial<BeatDetectorOptions>): void {
+    const previous = this.options;
+
+    // Options left undefined keep their current value
     this.options = {
-      ...this.options,
-      ...options,
+      threshold: options.threshold ?? previous.threshold,
+      decayRate: options.decayRate ?? previous.decayRate,
+      historyWindow: options.historyWindow ?? previous.historyWindow,
+      minTimeBetweenBeats: options.minTimeBetweenBeats ?? previous.minTimeBetweenBeats,
       frequencyRange: {
-        ...this.options.frequencyRange,
-        ...(options.frequencyRange || {})
+        low: options.frequencyRange?.low ?? previous.frequencyRange.low,
+        high: options.frequencyRange?.high ?? previous.frequencyRange.high
       }
     };
   }
 }
 
+// Relative tempo difference still counted as the same tempo
+const TEMPO_TOLERANCE = 0.04;
+// Distance from the beat grid, as a share of the period, still counted as on the beat
+const GRID_TOLERANCE = 0.1;
+
+/**
+ * Default bands of MultiBandBeatDetector
+ */
+export const DEFAULT_BEAT_BANDS: Record<string, BeatBandOptions> = {
+  kick: {
+    frequencyRange: { low: 40, high: 120 },
+    threshold: 0.15,
+    minTimeBetweenBeats: 250
+  },
+  snare: {
+    frequencyRange: { low: 150, high: 2500 },
+    threshold: 0.1,
+    minTimeBetweenBeats: 150
+  },
+  hihat: {
+    frequencyRange: { low: 6000, high: 16000 },
+    threshold: 0.06,
+    minTimeBetweenBeats: 80
+  }
+};
+
+/**
+ * Beat detection in several frequency bands at once, e.g. kick, snare and hi-hat.
+ * Each band runs its own BeatDetector, with its own threshold and refractory period.
+ */
+export class MultiBandBeatDetector {
+  private detectors = new Map<string, BeatDetector>();
+
+  constructor(bands: Record<string, BeatBandOptions> = DEFAULT_BEAT_BANDS) {
+    this.updateOptions(bands);
+  }
+
+  /**
+   * Detect beats in every band of a live or plain frame
+   */
+  public detect(audioData: AudioFrameInput | null): Record<string, BeatBandInfo> {
+    const result: Record<string, BeatBandInfo> = {};
+
+    this.detectors.forEach((detector, name) => {
+      const { isBeat, energy, averageEnergy, delta } = detector.detect(audioData);
+      result[name] = { isBeat, energy, averageEnergy, delta };
+    });
+
+    return result;
+  }
+
+  /**
+   * Replace the bands. Bands that keep their name keep their history.
+   */
+  public updateOptions(bands: Record<string, BeatBandOptions>): void {
+    this.detectors.forEach((_, name) => {
+      if (!(name in bands)) {
+        this.detectors.delete(name);
+      }
+    });
+
+    Object.entries(bands).forEach(([name, options]) => {
+      const detector = this.detectors.get(name);
+      if (detector) {
+        detector.updateOptions(options);
+      } else {
+        this.detectors.set(name, new BeatDetector(options));
+      }
+    });
+  }
+
+  /**
+   * Reset every band
+   */
+  public reset(): void {
+    this.detectors.forEach(detector => detector.reset());
+  }
+}
+
+/**
+ * Create a built-in onset detector by name
+ */
+export const createOnsetDetector = (
+  method: OnsetMethod,
+  options: OnsetDetectorOptions = {}
+): OnsetDetector => {
+  if (method === 'energy') {
+    const { multiplier, medianWindow, ...energyOptions } = options;
+    return new BeatDetector(energyOptions);
+  }
+  return new NoveltyOnsetDetector(method, options);
+};
+
 /**
- * Tempo analysis (BPM) from beat data
+ * Tempo analysis (BPM) from beat data.
+ *
+ * Every pair of recent beats votes for the tempos its interval could be one, two, three or
+ * four beats of, in an inter-onset histogram over the BPM range. The winner is scored
+ * with support from half and double time and a preference for preferredTempo, and its
+ * octaves are weighed by how many beats fall on their grid, so the preference only
+ * settles octaves the beats fit equally well. The beat phase is the weighted circular mean of the beats
+ * against that period, recent beats counting most.
  */
 export class TempoAnalyzer {
-  private beatTimes: number[] = [];
-  private readonly maxHistorySize = 24; // Store max 24 beats
-  
+  private options: Required<TempoAnalyzerOptions>;
+  private beats: { time: number; strength: number }[] = [];
+  private readonly maxHistorySize = 64;
+
+  // Result of the last estimate, recomputed when beats or options change
+  private period = 0;         // Beat period in seconds
+  private offset = 0;         // Time of a beat on the grid in seconds
+  private confidence = 0;
+  private stale = true;
+
+  constructor(options: TempoAnalyzerOptions = {}) {
+    this.options = {
+      minTempo: options.minTempo ?? 60,
+      maxTempo: options.maxTempo ?? 180,
+      preferredTempo: options.preferredTempo ?? 120,
+      tempoWindow: options.tempoWindow ?? 8
+    };
+  }
+
   /**
-   * Add new beat timestamp
+   * Add a beat time (seconds), optionally weighted by its onset strength
    */
-  public addBeat(time: number): void {
-    this.beatTimes.push(time);
-    
-    if (this.beatTimes.length > this.maxHistorySize) {
-      this.beatTimes.shift();
+  public addBeat(time: number, strength: number = 1): void {
+    this.beats.push({ time, strength });
+
+    const oldest = time - this.options.tempoWindow;
+    while (this.beats.length > this.maxHistorySize || (this.beats.length > 0 && this.beats[0].time < oldest)) {
+      this.beats.shift();
     }
+    this.stale = true;
   }
-  
+
   /**
    * Calculate current tempo (BPM)
    */
   public getTempo(): number {
-    if (this.beatTimes.length < 4) {
-      return 0; // Need at least 4 beats to calculate
-    }
-    
-    // Calculate time between beats
-    const intervals: number[] = [];
-    for (let i = 1; i < this.beatTimes.length; i++) {
-      intervals.push(this.beatTimes[i] - this.beatTimes[i - 1]);
+    this.update();
+    return this.period > 0 ? Math.round(60 / this.period) : 0;
+  }
+
+  /**
+   * Tempo with its confidence, the beat phase at `time` (seconds) and when the next beat is due
+   */
+  public getEstimate(time: number): TempoEstimate {
+    this.update();
+
+    if (this.period === 0) {
+      return { tempo: 0, confidence: 0, phase: 0, nextBeatTime: null };
     }
-    
-    // Filter outliers
-    const sorted = [...intervals].sort((a, b) => a - b);
-    const q1Index = Math.floor(sorted.length * 0.25);
-    const q3Index = Math.floor(sorted.length * 0.75);
-    const iqr = sorted[q3Index] - sorted[q1Index];
-    const lowerBound = sorted[q1Index] - 1.5 * iqr;
-    const upperBound = sorted[q3Index] + 1.5 * iqr;
-    
-    const filteredIntervals = intervals.filter(i => i >= lowerBound && i <= upperBound);
-    
-    if (filteredIntervals.length === 0) {
-      return 0;
+
+    const elapsed = (time - this.offset) / this.period;
+    const phase = elapsed - Math.floor(elapsed);
+
+    return {
+      tempo: 60 / this.period,
+      confidence: this.confidence,
+      phase,
+      nextBeatTime: this.offset + Math.floor(elapsed + 1) * this.period
+    };
+  }
+
+  /**
+   * Update options
+   */
+  public updateOptions(options: Partial<TempoAnalyzerOptions>): void {
+    const previous = this.options;
+
+    // Options left undefined keep their current value
+    this.options = {
+      minTempo: options.minTempo ?? previous.minTempo,
+      maxTempo: options.maxTempo ?? previous.maxTempo,
+      preferredTempo: options.preferredTempo ?? previous.preferredTempo,
+      tempoWindow: options.tempoWindow ?? previous.tempoWindow
+    };
+
+    if ((Object.keys(this.options) as (keyof TempoAnalyzerOptions)[]).some(key => this.options[key] !== previous[key])) {
+      this.stale = true;
     }
-    
-    // Calculate average time between beats
-    const averageInterval = filteredIntervals.reduce((sum, i) => sum + i, 0) / filteredIntervals.length;
-    
-    // Convert to BPM (60000ms = 1 minute)
-    return Math.round(60000 / averageInterval);
   }
-  
+
   /**
    * Reset state
    */
   public reset(): void {
-    this.beatTimes = [];
+    this.beats = [];
+    this.period = 0;
+    this.offset = 0;
+    this.confidence = 0;
+    this.stale = true;
+  }
+
+  private update(): void {
+    if (!this.stale) return;
+    this.stale = false;
+
+    const { minTempo, maxTempo, preferredTempo } = this.options;
+    const beats = this.beats;
+    this.period = 0;
+    this.confidence = 0;
+
+    if (beats.length < 2) return;
+
+    // Inter-onset histogram in 1 BPM bins, with a small kernel so near misses add up.
+    // It reaches past the BPM range so tempos at either end get all of their votes.
+    const lowest = Math.max(Math.floor(minTempo * (1 - TEMPO_TOLERANCE)) - 2, 1);
+    const binCount = Math.ceil(maxTempo * (1 + TEMPO_TOLERANCE)) + 2 - lowest + 1;
+    const histogram = new Float64Array(binCount);
+    const maxInterval = 4 * 60 / minTempo;
+    let total = 0;
+
+    for (let i = 0; i < beats.length; i++) {
+      for (let j = i + 1; j < beats.length; j++) {
+        const interval = beats[j].time - beats[i].time;
+        if (interval > maxInterval) break;
+        if (interval <= 0) continue;
+
+        const weight = beats[i].strength * beats[j].strength;
+        for (let multiple = 1; multiple <= 4; multiple++) {
+          const bin = 60 * multiple / interval - lowest;
+          if (bin < 0 || bin > binCount - 1) continue;
+
+          // Direct neighbours are the strongest evidence
+          const vote = weight / multiple;
+          for (let k = Math.max(Math.ceil(bin - 2), 0); k <= Math.min(Math.floor(bin + 2), binCount - 1); k++) {
+            histogram[k] += vote * Math.exp(-0.5 * (k - bin) * (k - bin));
+          }
+          total += vote;
+        }
+      }
+    }
+
+    if (total === 0) return;
+
+    // Votes within a relative tolerance, so timing jitter doesn't favour slower tempos,
+    // whose peaks it spreads over fewer bins
+    const cumulative = new Float64Array(binCount + 1);
+    for (let k = 0; k < binCount; k++) {
+      cumulative[k + 1] = cumulative[k] + histogram[k];
+    }
+    const massAround = (bpm: number) => {
+      const from = Math.max(Math.round(bpm * (1 - TEMPO_TOLERANCE) - lowest), 0);
+      const to = Math.min(Math.round(bpm * (1 + TEMPO_TOLERANCE) - lowest), binCount - 1);
+      return to >= from ? cumulative[to + 1] - cumulative[from] : 0;
+    };
+
+    // Half and double time support the tempo, and a prior around preferredTempo
+    // keeps the winner away from other ratios (e.g. 2/3 of the tempo)
+    const scoreAround = (bpm: number) => massAround(bpm) + 0.5 * (massAround(bpm * 2) + massAround(bpm / 2));
+    const priorOf = (bpm: number) => {
+      const octaves = Math.log2(bpm / preferredTempo);
+      return Math.exp(-0.5 * octaves * octaves);
+    };
+    let best = 0;
+    let bestScore = 0;
+    for (let bpm = Math.ceil(minTempo); bpm <= maxTempo; bpm++) {
+      const score = scoreAround(bpm) * priorOf(bpm);
+
+      if (score > bestScore) {
+        bestScore = score;
+        best = bpm;
+      }
+    }
+
+    if (bestScore === 0) return;
+
+    // Refine to the weighted centre of the votes around a tempo
+    const refine = (center: number) => {
+      let peakMass = 0;
+      let weightedBpm = 0;
+      for (
+        let k = Math.max(Math.round(center * (1 - TEMPO_TOLERANCE) - lowest), 0);
+        k <= Math.min(Math.round(center * (1 + TEMPO_TOLERANCE) - lowest), binCount - 1);
+        k++
+      ) {
+        peakMass += histogram[k];
+        weightedBpm += histogram[k] * (lowest + k);
+      }
+      const tempo = peakMass > 0 ? weightedBpm / peakMass : center;
+      return Math.min(Math.max(tempo, minTempo), maxTempo);
+    };
+
+    // Beat grid: circular mean of the beats' positions within the period, and the
+    // share of beats on it above what random onsets would reach
+    const newest = beats[beats.length - 1].time;
+    const fitGrid = (period: number) => {
+      let x = 0;
+      let y = 0;
+      for (const beat of beats) {
+        const angle = 2 * Math.PI * (beat.time - newest) / period;
+        const weight = beat.strength * Math.exp((beat.time - newest) / (8 * period));
+        x += weight * Math.cos(angle);
+        y += weight * Math.sin(angle);
+      }
+      const offset = newest + Math.atan2(y, x) / (2 * Math.PI) * period;
+
+      let onGrid = 0;
+      let strengthSum = 0;
+      for (const beat of beats) {
+        const position = (beat.time - offset) / period;
+        if (Math.abs(position - Math.round(position)) <= GRID_TOLERANCE) {
+          onGrid += beat.strength;
+        }
+        strengthSum += beat.strength;
+      }
+      const chance = 2 * GRID_TOLERANCE;
+      return { offset, agreement: Math.max((onGrid / strengthSum - chance) / (1 - chance), 0) };
+    };
+
+    // Intervals fit half and double time about as well, so the prior alone would settle
+    // octaves. The winner's octaves are also weighed by the share of beats on their grid,
+    // as a steady pulse only fits half its tempo every other beat.
+    const candidates = [best, best / 2, best * 2].filter(bpm =>
+      bpm >= minTempo * (1 - TEMPO_TOLERANCE) && bpm <= maxTempo * (1 + TEMPO_TOLERANCE)
+    );
+    const fits = candidates.map(bpm => {
+      const period = 60 / refine(bpm);
+      const fit = fitGrid(period);
+      return { period, ...fit, rank: scoreAround(bpm) * priorOf(bpm) * fit.agreement };
+    });
+    const { period, offset, agreement } = fits.reduce((chosen, fit) => fit.rank > chosen.rank ? fit : chosen);
+    this.period = period;
+    this.offset = offset;
+
+    // Damped while there are few beats
+    this.confidence = agreement * (1 - Math.exp(-(beats.length - 1) / 4));
   }
 }
 
 /**
  * Helper to use both classes together
  */
-export const createBeatAnalyzer = (options?: BeatDetectorOptions) => {
-  const detector = new BeatDetector(options);
-  const analyzer = new TempoAnalyzer();
+export const createBeatAnalyzer = (options: BeatAnalyzerOptions = {}) => {
+  const {
+    bands,
+    onsetDetector = 'energy',
+    minTempo,
+    maxTempo,
+    preferredTempo,
+    tempoWindow,
+    ...detectorOptions
+  } = options;
+  let strategy = onsetDetector;
+  let detector = typeof strategy === 'string' ? createOnsetDetector(strategy, detectorOptions) : strategy;
+  const bandDetector = new MultiBandBeatDetector(bands);
+  const analyzer = new TempoAnalyzer({ minTempo, maxTempo, preferredTempo, tempoWindow });
+  let beats = 0;
+  
+  let lastTime: number | null = null;
   
-  const analyzeBeat = (audioData: AudioData | null) => {
+  const analyzeBeat = (audioData: AudioFrameInput | null) => {
+    // The clock went back, e.g. a new context: beats stamped on the old clock would
+    // lie in the future, so the tempo history starts over along with the detectors
+    if (audioData) {
+      const time = getFrameTime(audioData);
+      if (lastTime !== null && time < lastTime) {
+        detector.reset();
+        bandDetector.reset();
+        analyzer.reset();
+      }
+      lastTime = time;
+    }
+    
     const beatInfo = detector.detect(audioData);
     
     if (beatInfo.isBeat) {
       analyzer.addBeat(beatInfo.time);
+      beats += 1;
     }
     
+    const { tempo, confidence, phase, nextBeatTime } = analyzer.getEstimate(beatInfo.time);
+    
     return {
       ...beatInfo,
-      tempo: analyzer.getTempo()
+      tempo: Math.round(tempo),
+      confidence,
+      phase,
+      nextBeatTime,
+      beats,
+      bands: bandDetector.detect(audioData)
     };
   };
   
   const reset = () => {
     detector.reset();
+    bandDetector.reset();
     analyzer.reset();
+    beats = 0;
+    lastTime = null;
   };
   
-  const updateOptions = (newOptions: Partial<BeatDetectorOptions>) => {
-    detector.updateOptions(newOptions);
+  const updateOptions = (newOptions: Partial<BeatAnalyzerOptions>) => {
+    const {
+      bands,
+      onsetDetector,
+      minTempo,
+      maxTempo,
+      preferredTempo,
+      tempoWindow,
+      ...newDetectorOptions
+    } = newOptions;
+    // Options left undefined keep their current value
+    Object.entries(newDetectorOptions).forEach(([key, value]) => {
+      if (value !== undefined) {
+        (detectorOptions as Record<string, unknown>)[key] = value;
+      }
+    });
+    analyzer.updateOptions({ minTempo, maxTempo, preferredTempo, tempoWindow });
+
+    // A different strategy starts from scratch; the tempo history is kept
+    if (onsetDetector !== undefined && onsetDetector !== strategy) {
+      strategy = onsetDetector;
+      detector = typeof strategy === 'string' ? createOnsetDetector(strategy, detectorOptions) : strategy;
+    } else {
+      detector.updateOptions?.(newDetectorOptions);
+    }
+
+    if (bands) {
+      bandDetector.updateOptions(bands);
+    }
   };
   
   return {
@@ -229,4 +628,4 @@ export const createBeatAnalyzer = (options?: BeatDetectorOptions) => {
     reset,
     updateOptions
   };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,143 @@
+import { AudioBufferLike, BeatMap } from '../types';
+import { analyzeBeats, analyzeBeatsAsync, getBeatPosition } from './beatMap';
+
+const sampleRate = 22050;
+
+interface Hit {
+  time: number;
+  frequency: number;
+  amplitude: number;
+}
+
+// Decaying sine hits: 60 Hz for kicks, 1.5 kHz for clicks
+const render = (seconds: number, hits: Hit[]): AudioBufferLike => {
+  const data = new Float32Array(seconds * sampleRate);
+  hits.forEach(({ time, frequency, amplitude }) => {
+    const start = Math.round(time * sampleRate);
+    for (let i = 0; i < 0.2 * sampleRate && start + i < data.length; i++) {
+      data[start + i] += amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate) * Math.exp(-i / (0.04 * sampleRate));
+    }
+  });
+  return { sampleRate, length: data.length, duration: seconds, numberOfChannels: 1, getChannelData: () => data };
+};
+
+// Beat times at a steady tempo from `start` until just before `end`
+const grid = (start: number, end: number, bpm: number) =>
+  Array.from({ length: Math.ceil((end - 0.1 - start) * bpm / 60) }, (_, index) => start + index * 60 / bpm);
+
+const kicks = (times: number[], amplitude: (time: number) => number = () => 0.8) =>
+  times.map(time => ({ time, frequency: 60, amplitude: amplitude(time) }));
+
+describe('analyzeBeats', () => {
+  it('puts downbeats on the accented beat of each bar', () => {
+    // A pickup click, then bars of a kick followed by three clicks
+    const hits = grid(0.5, 24, 120).map((time, index) => index % 4 === 1
+      ? { time, frequency: 60, amplitude: 0.9 }
+      : { time, frequency: 1500, amplitude: 0.3 });
+    const beatMap = analyzeBeats(render(24, hits));
+
+    const accents = hits.filter(hit => hit.frequency === 60).map(hit => hit.time);
+    expect(beatMap.downbeats.length).toBeGreaterThanOrEqual(accents.length - 1);
+    beatMap.downbeats.forEach(time => {
+      expect(Math.min(...accents.map(accent => Math.abs(accent - time)))).toBeLessThan(0.03);
+    });
+    expect(beatMap.beats[0].beatInBar).toBe(4);
+    expect(beatMap.beats[1].isDownbeat).toBe(true);
+  });
+
+  it('reports a tempo step as a tempo change', () => {
+    const buffer = render(40, kicks([...grid(0.5, 20, 100), ...grid(20, 40, 130)]));
+    const { tempoChanges } = analyzeBeats(buffer);
+
+    expect(Math.abs(tempoChanges[0].tempo - 100)).toBeLessThan(1.5);
+    expect(Math.abs(tempoChanges[tempoChanges.length - 1].tempo - 130)).toBeLessThan(1.5);
+    // Changes after the first only come around the step
+    tempoChanges.slice(1).forEach(change => {
+      expect(Math.abs(change.time - 20)).toBeLessThan(2.5);
+    });
+  });
+
+  it('starts a section where the level changes', () => {
+    const buffer = render(40, kicks(grid(0.5, 40, 120), time => time < 20 ? 0.15 : 0.9));
+    const { sections } = analyzeBeats(buffer);
+
+    expect(sections).toHaveLength(2);
+    expect(Math.abs(sections[1].start - 20)).toBeLessThan(1);
+    expect(sections[0].start).toBe(0);
+    expect(sections[1].end).toBe(40);
+    expect(sections[1].energy).toBeGreaterThan(3 * sections[0].energy);
+  });
+});
+
+describe('getBeatPosition', () => {
+  const beatMap: BeatMap = {
+    duration: 4,
+    tempo: 120,
+    confidence: 1,
+    beatsPerBar: 4,
+    beats: [1, 1.5, 2, 2.5, 3].map((time, index) => ({
+      time,
+      index,
+      bar: Math.floor(index / 4) + 1,
+      beatInBar: index % 4 + 1,
+      isDownbeat: index % 4 === 0,
+      strength: 1
+    })),
+    downbeats: [1, 3],
+    tempoChanges: [{ time: 1, tempo: 120 }],
+    sections: [{ start: 0, end: 2, energy: 0.1 }, { start: 2, end: 4, energy: 0.2 }]
+  };
+
+  it('reports the phase between beats', () => {
+    const position = getBeatPosition(beatMap, 1.625);
+
+    expect(position.beatIndex).toBe(1);
+    expect(position.phase).toBeCloseTo(0.25);
+    expect(position.nextBeatTime).toBe(2);
+    expect(position.beatInBar).toBe(2);
+    expect(position.sectionIndex).toBe(0);
+  });
+
+  it('has no beat before the first one', () => {
+    const position = getBeatPosition(beatMap, 0.5);
+
+    expect(position.beatIndex).toBe(-1);
+    expect(position.beat).toBeNull();
+    expect(position.nextBeatTime).toBe(1);
+    expect(position.phase).toBe(0);
+    expect(position.bar).toBe(0);
+  });
+
+  it('stays on the last beat after it', () => {
+    const position = getBeatPosition(beatMap, 3.8);
+
+    expect(position.beatIndex).toBe(4);
+    expect(position.nextBeatTime).toBeNull();
+    expect(position.phase).toBe(0);
+    expect(position.bar).toBe(2);
+    expect(position.sectionIndex).toBe(1);
+  });
+});
+
+describe('analyzeBeatsAsync', () => {
+  const clickTrack = render(12, kicks(grid(0, 12, 120)));
+
+  it('matches analyzeBeats', async () => {
+    const beatMap = await analyzeBeatsAsync(clickTrack);
+
+    expect(beatMap).toEqual(analyzeBeats(clickTrack));
+    expect(Math.abs(beatMap.tempo - 120)).toBeLessThan(1);
+  });
+
+  it('rejects with an aborted error when cancelled', async () => {
+    const controller = new AbortController();
+    const analysis = analyzeBeatsAsync(clickTrack, {}, controller.signal);
+    controller.abort();
+
+    await expect(analysis).rejects.toMatchObject({ code: 'aborted' });
+  });
+
+  it('rejects invalid options', async () => {
+    await expect(analyzeBeatsAsync(clickTrack, { hopSize: 0 })).rejects.toMatchObject({ code: 'invalid-options' });
+  });
+});
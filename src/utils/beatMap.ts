@@ -0,0 +1,616 @@
+import {
+  AudioBufferLike,
+  BeatMap,
+  BeatMapBeat,
+  BeatMapOptions,
+  BeatMapPosition,
+  BeatMapSection,
+  TempoChange
+} from '../types';
+import { TempoAnalyzer, createOnsetDetector } from './beatDetection';
+import { FFTAnalyser } from './fft';
+import { createAudioError } from './errors';
+import { mixChannels, readFrame } from './offlineAnalysis';
+
+// Penalty for beat intervals that stray from the local period, on a log scale
+const TIGHTNESS = 100;
+// Relative tempo difference reported as a tempo change
+const TEMPO_CHANGE_TOLERANCE = 0.04;
+// Beat intervals either side of a beat its local tempo is the median of
+const TEMPO_CHANGE_SPAN = 4;
+// Kick drum range, which usually hits on the downbeat
+const KICK_RANGE = { low: 40, high: 150 };
+// Log-spaced bands whose change across a beat marks chord changes, which usually fall on the downbeat
+const CHANGE_BANDS = { low: 100, high: 8000, count: 24 };
+// Resolution of the section novelty curve in seconds
+const SECTION_BLOCK = 0.5;
+// Milliseconds analyzeBeatsAsync works before yielding to the event loop
+const ANALYSIS_SLICE = 10;
+
+interface TempoWindow {
+  time: number;               // Centre of the window in seconds
+  tempo: number;              // Tempo in BPM, 0 without enough onsets
+  confidence: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const toDecibels = (power: number): number => 10 * Math.log10(Math.max(power, 1e-12));
+
+/**
+ * Overall tempo from the windows: the confidence-weighted median
+ */
+const weightedMedianTempo = (windows: TempoWindow[]): number => {
+  const sorted = windows.filter(window => window.tempo > 0).sort((a, b) => a.tempo - b.tempo);
+  const total = sorted.reduce((sum, window) => sum + window.confidence, 0);
+  if (sorted.length === 0) return 0;
+  if (total === 0) return median(sorted.map(window => window.tempo));
+
+  let cumulative = 0;
+  for (const window of sorted) {
+    cumulative += window.confidence;
+    if (cumulative >= total / 2) return window.tempo;
+  }
+  return sorted[sorted.length - 1].tempo;
+};
+
+/**
+ * Local tempo of a window, moved by an octave when that agrees with the overall tempo
+ */
+const foldTempo = (tempo: number, overall: number): number => {
+  if (tempo <= 0) return overall;
+  for (const factor of [1, 0.5, 2]) {
+    if (Math.abs(tempo * factor - overall) / overall <= 0.1) return tempo * factor;
+  }
+  return tempo;
+};
+
+/**
+ * Beat frames by dynamic programming over the onset envelope: each beat is an onset
+ * one local period after the previous one, trading onset strength against steady timing
+ */
+const trackBeats = (envelope: Float32Array, periods: Float32Array): number[] => {
+  const frameCount = envelope.length;
+  const score = new Float64Array(frameCount);
+  const previous = new Int32Array(frameCount).fill(-1);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const period = periods[frame];
+    let best = 0;
+
+    for (let candidate = Math.max(frame - Math.round(2 * period), 0); candidate <= frame - Math.round(period / 2); candidate++) {
+      const deviation = Math.log((frame - candidate) / period);
+      const value = score[candidate] - TIGHTNESS * deviation * deviation;
+      if (value > best) {
+        best = value;
+        previous[frame] = candidate;
+      }
+    }
+    score[frame] = envelope[frame] + best;
+  }
+
+  // The chain ends on the best score within the last two periods
+  let last = frameCount - 1;
+  for (let frame = Math.max(frameCount - Math.round(2 * periods[frameCount - 1]), 0); frame < frameCount; frame++) {
+    if (score[frame] > score[last]) last = frame;
+  }
+
+  const frames: number[] = [];
+  for (let frame = last; frame >= 0; frame = previous[frame]) {
+    frames.push(frame);
+  }
+  return frames.reverse();
+};
+
+/**
+ * Sections from the novelty of loudness and band levels: boundaries where the
+ * `minSectionDuration` seconds before and after differ most. Levels are averaged
+ * as power over the whole span, so the beat pattern within it cancels out.
+ */
+const findSectionBoundaries = (blocks: number[][], minSectionDuration: number): number[] => {
+  const half = Math.max(Math.round(minSectionDuration / SECTION_BLOCK), 1);
+  const novelty = new Float64Array(blocks.length);
+  // Blocks near the boundary weigh most, which sharpens the peaks
+  const weights = Array.from({ length: half }, (_, distance) => (half - distance) / half);
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const meanOf = (boundary: number, direction: 1 | -1) => {
+    const mean = new Array(blocks[0].length).fill(0);
+    weights.forEach((weight, distance) => {
+      const block = direction > 0 ? boundary + distance : boundary - 1 - distance;
+      blocks[block].forEach((value, index) => { mean[index] += value * weight / weightSum; });
+    });
+    return mean.map(toDecibels);
+  };
+
+  for (let block = half; block <= blocks.length - half; block++) {
+    const before = meanOf(block, -1);
+    const after = meanOf(block, 1);
+    novelty[block] = Math.sqrt(before.reduce((sum, value, index) => sum + Math.pow(value - after[index], 2), 0));
+  }
+
+  const values = Array.from(novelty.subarray(half, Math.max(blocks.length - half + 1, half)));
+  if (values.length === 0) return [];
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const deviation = Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length);
+
+  // Strongest peaks first, each at least a section away from the others and the ends
+  const candidates: number[] = [];
+  for (let block = half; block <= blocks.length - half; block++) {
+    if (
+      novelty[block] > mean + deviation &&
+      novelty[block] >= novelty[block - 1] &&
+      novelty[block] >= (novelty[block + 1] ?? 0)
+    ) {
+      candidates.push(block);
+    }
+  }
+  candidates.sort((a, b) => novelty[b] - novelty[a]);
+
+  const minBlocks = minSectionDuration / SECTION_BLOCK;
+  const boundaries: number[] = [];
+  for (const block of candidates) {
+    if (
+      block >= minBlocks &&
+      blocks.length - block >= minBlocks &&
+      boundaries.every(boundary => Math.abs(boundary - block) >= minBlocks)
+    ) {
+      boundaries.push(block);
+    }
+  }
+
+  return boundaries.sort((a, b) => a - b).map(block => block * SECTION_BLOCK);
+};
+
+/**
+ * Beat of the grid the first downbeat falls on: the bar position where kicks are
+ * strongest and the spectrum changes most, each scaled to unit deviation
+ */
+const findDownbeatOffset = (
+  beatFrames: number[],
+  kicks: number[],
+  bands: Float32Array[],
+  beatsPerBar: number
+): number => {
+  if (beatsPerBar === 1) return 0;
+
+  const bandCount = bands[0].length;
+  const averageBands = (from: number, to: number) => {
+    const average = new Float64Array(bandCount);
+    for (let frame = from; frame < to; frame++) {
+      for (let index = 0; index < bandCount; index++) {
+        average[index] += bands[frame][index];
+      }
+    }
+    return average;
+  };
+
+  const kickLevels = beatFrames.map(frame => toDecibels(kicks[frame]));
+  const changes = beatFrames.map((frame, index) => {
+    if (index === 0 || index === beatFrames.length - 1) return 0;
+    const before = averageBands(beatFrames[index - 1], frame);
+    const after = averageBands(frame, beatFrames[index + 1]);
+    let dot = 0;
+    let beforeNorm = 0;
+    let afterNorm = 0;
+    for (let band = 0; band < bandCount; band++) {
+      dot += before[band] * after[band];
+      beforeNorm += before[band] * before[band];
+      afterNorm += after[band] * after[band];
+    }
+    return beforeNorm > 0 && afterNorm > 0 ? 1 - dot / Math.sqrt(beforeNorm * afterNorm) : 0;
+  });
+
+  const standardize = (values: number[]) => {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const deviation = Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length);
+    return values.map(value => deviation > 0 ? (value - mean) / deviation : 0);
+  };
+  const kickScores = standardize(kickLevels);
+  const changeScores = standardize(changes);
+
+  let bestOffset = 0;
+  let bestScore = -Infinity;
+  for (let offset = 0; offset < beatsPerBar; offset++) {
+    let sum = 0;
+    let count = 0;
+    for (let index = offset; index < beatFrames.length; index += beatsPerBar) {
+      sum += kickScores[index] + changeScores[index];
+      count++;
+    }
+    if (count > 0 && sum / count > bestScore) {
+      bestScore = sum / count;
+      bestOffset = offset;
+    }
+  }
+  return bestOffset;
+};
+
+/**
+ * The tempo at the first beat, then every beat where the local tempo (the median
+ * of nearby intervals) moves away from the current one
+ */
+const findTempoChanges = (beatTimes: number[], intervals: number[]): TempoChange[] => {
+  const localTempo = (index: number) => 60 / median(intervals.slice(
+    Math.max(index - TEMPO_CHANGE_SPAN, 0),
+    Math.min(index + TEMPO_CHANGE_SPAN, intervals.length)
+  ));
+
+  const changes: TempoChange[] = [{ time: beatTimes[0], tempo: localTempo(0) }];
+  for (let index = 1; index < beatTimes.length; index++) {
+    const current = changes[changes.length - 1].tempo;
+    const tempo = localTempo(index);
+    if (Math.abs(tempo - current) / current > TEMPO_CHANGE_TOLERANCE) {
+      changes.push({ time: beatTimes[index], tempo });
+    }
+  }
+  return changes;
+};
+
+/**
+ * Loudness, kick and low, mid and high band power of each section block
+ */
+const createSectionBlocks = (
+  times: number[],
+  powers: number[],
+  kicks: number[],
+  bands: Float32Array[],
+  duration: number
+): number[][] => {
+  const blockCount = Math.max(Math.ceil(duration / SECTION_BLOCK), 1);
+  const sums = Array.from({ length: blockCount }, () => new Float64Array(5));
+  const counts = new Array(blockCount).fill(0);
+
+  times.forEach((time, frame) => {
+    const block = Math.min(Math.floor(time / SECTION_BLOCK), blockCount - 1);
+    const third = bands[frame].length / 3;
+    sums[block][0] += powers[frame];
+    sums[block][1] += kicks[frame];
+    bands[frame].forEach((magnitude, index) => {
+      sums[block][2 + Math.min(Math.floor(index / third), 2)] += magnitude * magnitude;
+    });
+    counts[block]++;
+  });
+
+  return sums.map((sum, block) => Array.from(sum, level => counts[block] > 0 ? level / counts[block] : 0));
+};
+
+/**
+ * Sections between the boundaries, each boundary moved onto the nearest downbeat within a bar
+ */
+const createSections = (
+  boundaries: number[],
+  downbeats: number[],
+  barDuration: number,
+  times: number[],
+  powers: number[],
+  duration: number
+): BeatMapSection[] => {
+  if (duration <= 0) return [];
+
+  const snap = (time: number) => {
+    const nearest = downbeats.reduce((best, downbeat) => (
+      Math.abs(downbeat - time) < Math.abs(best - time) ? downbeat : best
+    ), Infinity);
+    return Math.abs(nearest - time) <= barDuration ? nearest : time;
+  };
+  const edges = [0, ...boundaries.map(snap), duration];
+
+  return edges.slice(1).map((end, index) => {
+    const start = edges[index];
+    let power = 0;
+    let count = 0;
+    times.forEach((time, frame) => {
+      if (time >= start && time < end) {
+        power += powers[frame];
+        count++;
+      }
+    });
+    return { start, end, energy: count > 0 ? Math.sqrt(power / count) : 0 };
+  });
+};
+
+interface BeatMapAnalysis {
+  step: () => boolean;        // Analyse the next frame, returning whether frames remain
+  finish: () => BeatMap;      // Beat map from the analysed frames
+}
+
+/**
+ * Frame by frame analysis of a buffer, so it can run in one go or in slices
+ */
+const createBeatMapAnalysis = (buffer: AudioBufferLike, options: BeatMapOptions): BeatMapAnalysis => {
+  const {
+    fftSize = 2048,
+    hopSize = 512,
+    channel,
+    onsetDetector = 'spectral-flux',
+    beatsPerBar = 4,
+    minSectionDuration = 8,
+    minTempo,
+    maxTempo,
+    preferredTempo,
+    tempoWindow = 8,
+    ...detectorOptions
+  } = options;
+
+  if (!(hopSize >= 1)) {
+    throw createAudioError('invalid-options', `hopSize must be at least 1, got ${hopSize}`);
+  }
+  if (channel !== undefined && (channel < 0 || channel >= buffer.numberOfChannels)) {
+    throw createAudioError('invalid-options', `Channel ${channel} is out of range`);
+  }
+  if (!(tempoWindow > 0)) {
+    throw createAudioError('invalid-options', `tempoWindow must be positive, got ${tempoWindow}`);
+  }
+  if (!Number.isInteger(beatsPerBar) || beatsPerBar < 1) {
+    throw createAudioError('invalid-options', `beatsPerBar must be a positive integer, got ${beatsPerBar}`);
+  }
+
+  const { sampleRate, numberOfChannels, duration } = buffer;
+  const channels = channel !== undefined
+    ? [buffer.getChannelData(channel)]
+    : Array.from({ length: numberOfChannels }, (_, index) => buffer.getChannelData(index));
+  const samples = mixChannels(channels);
+
+  // Validates fftSize; no smoothing, so attacks stay sharp
+  const analyser = new FFTAnalyser({ sampleRate, fftSize, smoothingTimeConstant: 0 });
+  const detector = createOnsetDetector(onsetDetector, detectorOptions);
+  const binWidth = sampleRate / fftSize;
+  const kickBins = [Math.max(Math.floor(KICK_RANGE.low / binWidth), 1), Math.ceil(KICK_RANGE.high / binWidth)];
+  const bandEdges = Array.from({ length: CHANGE_BANDS.count + 1 }, (_, index) => Math.round(
+    CHANGE_BANDS.low * Math.pow(CHANGE_BANDS.high / CHANGE_BANDS.low, index / CHANGE_BANDS.count) / binWidth
+  ));
+
+  // Per frame: onset strength, loudness, kick energy and band magnitudes
+  const times: number[] = [];
+  const strengths: number[] = [];
+  const powers: number[] = [];
+  const kicks: number[] = [];
+  const bands: Float32Array[] = [];
+  const onsets: { time: number; strength: number }[] = [];
+
+  let offset = 0;
+
+  const step = (): boolean => {
+    if (offset >= samples.length) return false;
+    const start = Math.floor(offset);
+    offset += hopSize;
+
+    analyser.process(readFrame(samples, start, fftSize));
+    const frame = analyser.getFrame('float');
+    frame.time = (start + fftSize / 2) / sampleRate;
+
+    const info = detector.detect(frame);
+    // The energy strategy reports band energy, so only its rise above the average counts
+    const strength = onsetDetector === 'energy' ? Math.max(info.delta, 0) : info.energy;
+    if (info.isBeat) {
+      onsets.push({ time: frame.time, strength: Math.max(strength, 1e-3) });
+    }
+
+    const magnitudes = analyser.getMagnitudes();
+    let power = 0;
+    for (const sample of frame.timeData) {
+      power += sample * sample / fftSize;
+    }
+    let kick = 0;
+    for (let bin = kickBins[0]; bin <= Math.min(kickBins[1], magnitudes.length - 1); bin++) {
+      kick += magnitudes[bin] * magnitudes[bin];
+    }
+    const band = new Float32Array(CHANGE_BANDS.count);
+    for (let index = 0; index < CHANGE_BANDS.count; index++) {
+      for (let bin = bandEdges[index]; bin < Math.max(bandEdges[index + 1], bandEdges[index] + 1); bin++) {
+        band[index] += magnitudes[Math.min(bin, magnitudes.length - 1)];
+      }
+    }
+
+    times.push(frame.time);
+    strengths.push(strength);
+    powers.push(power);
+    kicks.push(kick);
+    bands.push(band);
+    return offset < samples.length;
+  };
+
+  const finish = (): BeatMap => {
+    const boundaries = duration > 0
+      ? findSectionBoundaries(createSectionBlocks(times, powers, kicks, bands, duration), minSectionDuration)
+      : [];
+    const empty: BeatMap = {
+      duration,
+      tempo: 0,
+      confidence: 0,
+      beatsPerBar,
+      beats: [],
+      downbeats: [],
+      tempoChanges: [],
+      sections: createSections(boundaries, [], 0, times, powers, duration)
+    };
+
+    // Tempo of each window, half a window apart
+    const analyzer = new TempoAnalyzer({ minTempo, maxTempo, preferredTempo, tempoWindow });
+    const step = tempoWindow / 2;
+    const windows: TempoWindow[] = [];
+    for (let end = Math.min(tempoWindow, duration); ; end += step) {
+      analyzer.reset();
+      onsets
+        .filter(onset => onset.time >= end - tempoWindow && onset.time < end)
+        .forEach(onset => analyzer.addBeat(onset.time, onset.strength));
+
+      const { tempo, confidence } = analyzer.getEstimate(end);
+      windows.push({ time: end - Math.min(tempoWindow, duration) / 2, tempo, confidence });
+      if (end >= duration) break;
+    }
+
+    const overallTempo = weightedMedianTempo(windows);
+    if (overallTempo === 0 || times.length === 0) {
+      return empty;
+    }
+
+    // Local period of every frame, in frames, from the nearest window
+    const hopTime = hopSize / sampleRate;
+    const periods = new Float32Array(times.length);
+    times.forEach((time, frame) => {
+      const index = Math.min(Math.max(Math.round((time - windows[0].time) / step), 0), windows.length - 1);
+      periods[frame] = 60 / foldTempo(windows[index].tempo, overallTempo) / hopTime;
+    });
+
+    // Onset envelope scaled to unit deviation, as the timing penalty expects
+    const meanStrength = strengths.reduce((sum, value) => sum + value, 0) / strengths.length;
+    const deviation = Math.sqrt(strengths.reduce((sum, value) => sum + Math.pow(value - meanStrength, 2), 0) / strengths.length);
+    const maxStrength = strengths.reduce((max, value) => Math.max(max, value), 0);
+    const envelope = Float32Array.from(strengths, value => deviation > 0 ? value / deviation : 0);
+
+    // The grid runs through quiet passages, but weak beats before the music starts
+    // and after it ends are dropped
+    const tracked = trackBeats(envelope, periods);
+    const beatStrength = Math.sqrt(tracked.reduce((sum, frame) => sum + envelope[frame] * envelope[frame], 0) / tracked.length);
+    const isWeak = (frame: number) => envelope[frame] < beatStrength / 2;
+    let first = 0;
+    let last = tracked.length - 1;
+    while (first <= last && isWeak(tracked[first])) first++;
+    while (last >= first && isWeak(tracked[last])) last--;
+    const beatFrames = tracked.slice(first, last + 1);
+
+    if (beatFrames.length < 2) {
+      return empty;
+    }
+
+    const beatTimes = beatFrames.map(frame => {
+      // Between frames, from a parabola through the envelope peak
+      const [before, peak, after] = [envelope[frame - 1], envelope[frame], envelope[frame + 1]];
+      if (before === undefined || after === undefined || peak < before || peak < after) {
+        return times[frame];
+      }
+      const curvature = before - 2 * peak + after;
+      return times[frame] + (curvature < 0 ? 0.5 * (before - after) / curvature : 0) * hopTime;
+    });
+
+    const downbeatOffset = findDownbeatOffset(beatFrames, kicks, bands, beatsPerBar);
+    const beats: BeatMapBeat[] = beatFrames.map((frame, index) => {
+      const position = index - downbeatOffset;
+      const beatInBar = ((position % beatsPerBar) + beatsPerBar) % beatsPerBar + 1;
+
+      return {
+        time: beatTimes[index],
+        index,
+        bar: Math.floor(position / beatsPerBar) + 1,
+        beatInBar,
+        isDownbeat: beatInBar === 1,
+        strength: maxStrength > 0 ? strengths[frame] / maxStrength : 0
+      };
+    });
+
+    const intervals = beatTimes.slice(1).map((time, index) => time - beatTimes[index]);
+    const windowsWithTempo = windows.filter(window => window.tempo > 0);
+    const downbeats = beats.filter(beat => beat.isDownbeat).map(beat => beat.time);
+
+    return {
+      duration,
+      tempo: 60 / median(intervals),
+      confidence: windowsWithTempo.reduce((sum, window) => sum + window.confidence, 0) / windowsWithTempo.length,
+      beatsPerBar,
+      beats,
+      downbeats,
+      tempoChanges: findTempoChanges(beatTimes, intervals),
+      sections: createSections(boundaries, downbeats, beatsPerBar * median(intervals), times, powers, duration)
+    };
+  };
+
+  return { step, finish };
+};
+
+/**
+ * Build a beat map of a whole decoded file: the beat grid with bars and downbeats,
+ * tempo changes and coarse sections.
+ *
+ * Onsets come from the same detectors as useBeatDetection, run faster than real time,
+ * and TempoAnalyzer estimates the tempo in windows of `tempoWindow` seconds. Knowing the
+ * whole file, beats are then placed by dynamic programming over the onset strength,
+ * so they stay on the grid through breaks and fills. Downbeats are where kicks and
+ * spectral changes line up with the bar; sections are where loudness and band levels change.
+ *
+ * @param buffer Decoded audio, or any object with the same shape
+ * @param options Onset detection, tempo range, bar length and section length
+ */
+export const analyzeBeats = (buffer: AudioBufferLike, options: BeatMapOptions = {}): BeatMap => {
+  const analysis = createBeatMapAnalysis(buffer, options);
+  while (analysis.step());
+  return analysis.finish();
+};
+
+/**
+ * analyzeBeats in slices of ANALYSIS_SLICE milliseconds, yielding to the event loop
+ * in between so the page keeps rendering and responding while a long file is analysed
+ *
+ * @param buffer Decoded audio, or any object with the same shape
+ * @param options Onset detection, tempo range, bar length and section length
+ * @param signal Signal to cancel the analysis, which then rejects with an 'aborted' error
+ */
+export const analyzeBeatsAsync = async (
+  buffer: AudioBufferLike,
+  options: BeatMapOptions = {},
+  signal?: AbortSignal
+): Promise<BeatMap> => {
+  const analysis = createBeatMapAnalysis(buffer, options);
+  const nextSlice = async () => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) {
+      throw createAudioError('aborted', 'Beat analysis was aborted');
+    }
+  };
+
+  for (let remaining = true; remaining;) {
+    await nextSlice();
+    const sliceEnd = Date.now() + ANALYSIS_SLICE;
+    do {
+      remaining = analysis.step();
+    } while (remaining && Date.now() < sliceEnd);
+  }
+
+  await nextSlice();
+  return analysis.finish();
+};
+
+/**
+ * Where a time falls in a beat map: the current beat, bar, phase, tempo and section
+ *
+ * @param beatMap Result of analyzeBeats
+ * @param time Playback position in seconds
+ */
+export const getBeatPosition = (beatMap: BeatMap, time: number): BeatMapPosition => {
+  const { beats, tempoChanges, sections } = beatMap;
+
+  // Latest beat at or before the time
+  let beatIndex = -1;
+  let low = 0;
+  let high = beats.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (beats[middle].time <= time) {
+      beatIndex = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const beat = beats[beatIndex] ?? null;
+  const next = beats[beatIndex + 1] ?? null;
+  const tempoChange = tempoChanges.filter(change => change.time <= time).pop() ?? tempoChanges[0];
+
+  return {
+    beatIndex,
+    beat,
+    nextBeatTime: next ? next.time : null,
+    phase: beat && next ? (time - beat.time) / (next.time - beat.time) : 0,
+    bar: beat ? beat.bar : 0,
+    beatInBar: beat ? beat.beatInBar : 0,
+    tempo: tempoChange ? tempoChange.tempo : beatMap.tempo,
+    sectionIndex: sections.findIndex((section, index) => (
+      time >= section.start && (time < section.end || (index === sections.length - 1 && time <= section.end))
+    ))
+  };
+};
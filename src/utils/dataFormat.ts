@@ -0,0 +1,93 @@
+import { AudioFrameInput, DataFormat, FrequencyDataType, TimeDataType } from '../types';
+
+// Analyser defaults, used when no analyser is available to read the range from
+const DEFAULT_MIN_DECIBELS = -100;
+const DEFAULT_MAX_DECIBELS = -30;
+
+/**
+ * Get the representation of frequency or time data
+ */
+export const getDataFormat = (data: FrequencyDataType | TimeDataType | number[]): DataFormat =>
+  data instanceof Float32Array ? 'float' : 'byte';
+
+/**
+ * Get the decibel window byte data is scaled to, which float data is mapped onto for levels
+ */
+export const getDecibelRange = (frame: AudioFrameInput): { min: number; max: number } => {
+  if ('analyser' in frame) {
+    return {
+      min: frame.analyser?.minDecibels ?? DEFAULT_MIN_DECIBELS,
+      max: frame.analyser?.maxDecibels ?? DEFAULT_MAX_DECIBELS
+    };
+  }
+
+  return {
+    min: frame.minDecibels ?? DEFAULT_MIN_DECIBELS,
+    max: frame.maxDecibels ?? DEFAULT_MAX_DECIBELS
+  };
+};
+
+/**
+ * Get the sample rate of a live or plain frame
+ */
+export const getSampleRate = (frame: AudioFrameInput): number =>
+  'sampleRate' in frame ? frame.sampleRate : frame.audioContext.sampleRate;
+
+/**
+ * Get the time of a live or plain frame in seconds.
+ * Live frames use the audio clock, so timing doesn't depend on the display's frame rate.
+ */
+export const getFrameTime = (frame: AudioFrameInput): number => {
+  if (frame.time !== undefined) {
+    return frame.time;
+  }
+  return 'audioContext' in frame ? frame.audioContext.currentTime : performance.now() / 1000;
+};
+
+/**
+ * Get the number of frequency bins of a live or plain frame
+ */
+export const getBufferLength = (frame: AudioFrameInput): number =>
+  frame.bufferLength ?? frame.frequencyData.length;
+
+/**
+ * Convert a frequency bin value to a 0-1 level.
+ * Bytes are scaled from 0-255, dBFS values from the decibel range (as the analyser does for bytes).
+ */
+export const toFrequencyLevel = (
+  value: number,
+  format: DataFormat,
+  minDecibels: number = DEFAULT_MIN_DECIBELS,
+  maxDecibels: number = DEFAULT_MAX_DECIBELS
+): number => {
+  if (format === 'byte') {
+    return value / 255;
+  }
+
+  // Silent bins are reported as -Infinity
+  const level = (value - minDecibels) / (maxDecibels - minDecibels);
+  return Math.min(Math.max(level, 0), 1);
+};
+
+/**
+ * Convert a frequency bin value to a linear magnitude, as AnalyserNode scales it.
+ * Byte 0 and -Infinity dBFS are silence.
+ */
+export const toLinearMagnitude = (
+  value: number,
+  format: DataFormat,
+  minDecibels: number = DEFAULT_MIN_DECIBELS,
+  maxDecibels: number = DEFAULT_MAX_DECIBELS
+): number => {
+  if (format === 'byte') {
+    return value > 0 ? Math.pow(10, (minDecibels + (value / 255) * (maxDecibels - minDecibels)) / 20) : 0;
+  }
+
+  return Math.pow(10, value / 20);
+};
+
+/**
+ * Convert a time domain value to a -1 to 1 sample
+ */
+export const toTimeSample = (value: number, format: DataFormat): number =>
+  format === 'byte' ? (value / 128) - 1 : value;
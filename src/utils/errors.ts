@@ -0,0 +1,96 @@
+import { AudioErrorCode, AudioVisualizerError } from '../types';
+
+// Broad error type for each code, kept for code that checks `type`
+const ERROR_TYPES: Record<AudioErrorCode, AudioVisualizerError['type']> = {
+  'permission-denied': 'permission',
+  'permission-dismissed': 'permission',
+  'no-device': 'device',
+  'device-in-use': 'device',
+  'overconstrained': 'device',
+  'insecure-context': 'browser_support',
+  'unsupported-browser': 'browser_support',
+  'unsupported-codec': 'file_format',
+  'decode-error': 'file_format',
+  'context-closed': 'processing',
+  'context-suspended': 'processing',
+  'invalid-options': 'processing',
+  'media-element-in-use': 'processing',
+  'network': 'network',
+  'aborted': 'aborted',
+  'unknown': 'unknown'
+};
+
+/**
+ * Create an audio error with the given code
+ */
+export const createAudioError = (
+  code: AudioErrorCode,
+  message: string,
+  cause?: unknown,
+  status?: number
+): AudioVisualizerError => {
+  const error = new Error(message) as AudioVisualizerError;
+  error.code = code;
+  error.type = ERROR_TYPES[code];
+  error.cause = cause;
+  if (status !== undefined) {
+    error.status = status;
+  }
+  return error;
+};
+
+/**
+ * Whether a value is already an audio error
+ */
+export const isAudioError = (err: any): err is AudioVisualizerError =>
+  err instanceof Error && typeof (err as AudioVisualizerError).code === 'string';
+
+/**
+ * Error raised when the browser can't provide microphone access at all
+ */
+export const createMediaDevicesUnavailableError = (): AudioVisualizerError =>
+  typeof window !== 'undefined' && window.isSecureContext === false
+    ? createAudioError('insecure-context', 'Microphone access requires a secure context (HTTPS or localhost)')
+    : createAudioError('unsupported-browser', 'Microphone access is not supported in this browser');
+
+/**
+ * Convert a getUserMedia failure into an audio error
+ */
+export const fromMediaDevicesError = (err: any): AudioVisualizerError => {
+  if (isAudioError(err)) return err;
+
+  switch (err?.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      // Chrome reports a closed prompt as "Permission dismissed"
+      return /dismiss/i.test(err.message || '')
+        ? createAudioError('permission-dismissed', 'Microphone permission prompt was dismissed', err)
+        : createAudioError('permission-denied', 'Microphone permission denied', err);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return createAudioError('no-device', 'No microphone found', err);
+    case 'NotReadableError':
+    case 'TrackStartError':
+      return createAudioError('device-in-use', 'Microphone is in use by another application', err);
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      return createAudioError('overconstrained', 'No microphone matches the requested constraints', err);
+    case 'SecurityError':
+      return createAudioError('insecure-context', 'Microphone access is blocked in this context', err);
+    default:
+      return createAudioError('unknown', err?.message || 'Failed to start recording', err);
+  }
+};
+
+/**
+ * Convert a decodeAudioData failure into an audio error
+ */
+export const fromDecodeError = (err: any): AudioVisualizerError => {
+  if (isAudioError(err)) return err;
+
+  if (err?.name === 'NotSupportedError') {
+    return createAudioError('unsupported-codec', 'Audio format is not supported by this browser', err);
+  }
+
+  return createAudioError('decode-error', err?.message || 'Failed to decode audio data', err);
+};
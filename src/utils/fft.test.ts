@@ -0,0 +1,97 @@
+import { FFTAnalyser, createWindow, fft } from './fft';
+
+const sine = (frequency: number, amplitude: number, length: number, sampleRate: number) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+describe('fft', () => {
+  it('transforms a unit impulse to a flat spectrum', () => {
+    const real = new Float32Array(8);
+    const imag = new Float32Array(8);
+    real[0] = 1;
+    fft(real, imag);
+
+    expect(Array.from(real)).toEqual(new Array(8).fill(1));
+    expect(Array.from(imag).every(value => Math.abs(value) < 1e-7)).toBe(true);
+  });
+
+  it('puts a bin-centred cosine into its bin', () => {
+    const size = 64;
+    const real = Float32Array.from({ length: size }, (_, i) => Math.cos(2 * Math.PI * 5 * i / size));
+    const imag = new Float32Array(size);
+    fft(real, imag);
+
+    expect(Math.hypot(real[5], imag[5])).toBeCloseTo(size / 2, 3);
+    expect(Math.hypot(real[6], imag[6])).toBeCloseTo(0, 3);
+  });
+});
+
+describe('createWindow', () => {
+  it('builds periodic windows that peak in the middle, as AnalyserNode', () => {
+    const window = createWindow('hann', 1024);
+
+    expect(window[0]).toBeCloseTo(0);
+    expect(window[512]).toBeCloseTo(1);
+    expect(window[100]).toBeCloseTo(window[924], 5);
+    expect(Array.from(createWindow('rectangular', 4))).toEqual([1, 1, 1, 1]);
+  });
+});
+
+describe('FFTAnalyser', () => {
+  const sampleRate = 48000;
+
+  it('finds the frequency of a sine', () => {
+    const analyser = new FFTAnalyser({ sampleRate, fftSize: 4096, smoothingTimeConstant: 0 });
+    analyser.process(sine(1000, 0.5, 4096, sampleRate));
+
+    const magnitudes = analyser.getMagnitudes();
+    const peak = magnitudes.indexOf(Math.max(...magnitudes));
+    expect(Math.abs(peak * sampleRate / 4096 - 1000)).toBeLessThan(sampleRate / 4096);
+  });
+
+  it('scales a full-scale bin-centred sine as AnalyserNode does', () => {
+    // Blackman window coherent gain is 0.42, and a real sine puts half its amplitude in one bin
+    const fftSize = 2048;
+    const frequency = 64 * sampleRate / fftSize;
+    const analyser = new FFTAnalyser({ sampleRate, fftSize, smoothingTimeConstant: 0 });
+    analyser.process(sine(frequency, 1, fftSize, sampleRate));
+
+    expect(analyser.getFloatFrequencyData()[64]).toBeCloseTo(20 * Math.log10(0.42 / 2), 1);
+  });
+
+  it('maps decibels to bytes over the decibel range', () => {
+    const fftSize = 2048;
+    const frequency = 64 * sampleRate / fftSize;
+    const analyser = new FFTAnalyser({ sampleRate, fftSize, smoothingTimeConstant: 0, minDecibels: -100, maxDecibels: 0 });
+    analyser.process(sine(frequency, 1, fftSize, sampleRate));
+
+    const decibels = analyser.getFloatFrequencyData()[64];
+    expect(analyser.getByteFrequencyData()[64]).toBe(Math.floor(255 / 100 * (decibels + 100)));
+  });
+
+  it('smooths magnitudes between frames', () => {
+    const analyser = new FFTAnalyser({ sampleRate, fftSize: 1024, smoothingTimeConstant: 0.5 });
+    const tone = sine(64 * sampleRate / 1024, 1, 1024, sampleRate);
+    analyser.process(tone);
+    const first = analyser.getMagnitudes()[64];
+    analyser.process(tone);
+
+    expect(analyser.getMagnitudes()[64]).toBeCloseTo(first * 1.5, 5);
+  });
+
+  it('returns plain frames with the time data', () => {
+    const analyser = new FFTAnalyser({ sampleRate, fftSize: 256 });
+    const samples = sine(1000, 0.5, 300, sampleRate);
+    analyser.process(samples);
+    const frame = analyser.getFrame('byte');
+
+    expect(frame.sampleRate).toBe(sampleRate);
+    expect(frame.bufferLength).toBe(128);
+    expect(frame.frequencyData).toBeInstanceOf(Uint8Array);
+    expect(analyser.getFloatTimeDomainData()[0]).toBeCloseTo(samples[44]);
+  });
+
+  it('rejects sizes AnalyserNode would reject', () => {
+    expect(() => new FFTAnalyser({ sampleRate, fftSize: 1000 })).toThrow(expect.objectContaining({ code: 'invalid-options' }));
+    expect(() => new FFTAnalyser({ sampleRate, minDecibels: -30, maxDecibels: -100 })).toThrow();
+  });
+});
@@ -0,0 +1,296 @@
+import { AnalysisFrame, DataFormat, FFTAnalyserOptions, WindowFunction } from '../types';
+import { createAudioError } from './errors';
+
+/**
+ * Check whether a size is a power of two, as the FFT requires
+ */
+export const isPowerOfTwo = (size: number): boolean =>
+  size > 0 && Number.isInteger(size) && (size & (size - 1)) === 0;
+
+/**
+ * In-place iterative radix-2 FFT.
+ * Both arrays must have the same power-of-two length.
+ */
+export const fft = (real: Float32Array, imag: Float32Array): void => {
+  const size = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  // Butterflies, doubling the transform length each pass
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = -2 * Math.PI / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    const half = length >> 1;
+
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+
+      for (let k = 0; k < half; k++) {
+        const even = start + k;
+        const odd = even + half;
+
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+};
+
+/**
+ * Create a window of the given type and size.
+ * Periodic forms are used, as AnalyserNode does for its Blackman window.
+ */
+export const createWindow = (type: WindowFunction, size: number): Float32Array => {
+  const window = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const phase = 2 * Math.PI * i / size;
+
+    switch (type) {
+      case 'hann':
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case 'hamming':
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case 'blackman':
+        // alpha = 0.16
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      default:
+        window[i] = 1;
+    }
+  }
+
+  return window;
+};
+
+/**
+ * Windowed magnitude spectrum of `samples`, scaled by 1 / size like AnalyserNode.
+ * Samples past the end of the input are treated as silence.
+ *
+ * @param samples PCM samples (-1 to 1)
+ * @param offset Index of the first sample of the frame
+ * @param window Window to apply; its length is the FFT size
+ * @param output Array of window.length / 2 bins to fill
+ */
+export const getMagnitudeSpectrum = (
+  samples: Float32Array,
+  offset: number,
+  window: Float32Array,
+  output: Float32Array = new Float32Array(window.length / 2)
+): Float32Array => {
+  const size = window.length;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const index = offset + i;
+    real[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+  }
+
+  fft(real, imag);
+
+  for (let i = 0; i < output.length; i++) {
+    output[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) / size;
+  }
+
+  return output;
+};
+
+/**
+ * Check analyser options, throwing an 'invalid-options' error as AnalyserNode would throw
+ */
+const validateOptions = (options: Required<FFTAnalyserOptions>): void => {
+  const { fftSize, smoothingTimeConstant, minDecibels, maxDecibels } = options;
+
+  if (!isPowerOfTwo(fftSize) || fftSize < 32) {
+    throw createAudioError('invalid-options', `fftSize must be a power of two of at least 32, got ${fftSize}`);
+  }
+  if (smoothingTimeConstant < 0 || smoothingTimeConstant > 1) {
+    throw createAudioError('invalid-options', 'smoothingTimeConstant must be between 0 and 1');
+  }
+  if (minDecibels >= maxDecibels) {
+    throw createAudioError('invalid-options', 'minDecibels must be lower than maxDecibels');
+  }
+};
+
+/**
+ * Web-Audio-free counterpart of AnalyserNode.
+ * Feed it PCM with process() and read the results with the same getters as an AnalyserNode,
+ * so analysis can run in workers, Node or tests.
+ */
+export class FFTAnalyser {
+  private options: Required<FFTAnalyserOptions>;
+  private window: Float32Array;
+  private timeData: Float32Array;   // Most recent fftSize samples
+  private magnitudes: Float32Array; // Smoothed linear magnitudes
+
+  constructor(options: FFTAnalyserOptions) {
+    this.options = {
+      sampleRate: options.sampleRate,
+      fftSize: options.fftSize ?? 2048,
+      window: options.window ?? 'blackman',
+      smoothingTimeConstant: options.smoothingTimeConstant ?? 0.8,
+      minDecibels: options.minDecibels ?? -100,
+      maxDecibels: options.maxDecibels ?? -30
+    };
+
+    validateOptions(this.options);
+    this.window = createWindow(this.options.window, this.options.fftSize);
+    this.timeData = new Float32Array(this.options.fftSize);
+    this.magnitudes = new Float32Array(this.options.fftSize / 2);
+  }
+
+  public get fftSize(): number {
+    return this.options.fftSize;
+  }
+
+  public get frequencyBinCount(): number {
+    return this.options.fftSize / 2;
+  }
+
+  public get sampleRate(): number {
+    return this.options.sampleRate;
+  }
+
+  /**
+   * Analyse the most recent fftSize samples of `samples` (-1 to 1).
+   * Shorter input is preceded by silence.
+   */
+  public process(samples: Float32Array): void {
+    const { fftSize, smoothingTimeConstant } = this.options;
+
+    const start = samples.length - fftSize;
+    this.timeData.fill(0);
+    this.timeData.set(samples.subarray(Math.max(start, 0)), Math.max(-start, 0));
+
+    const current = getMagnitudeSpectrum(this.timeData, 0, this.window);
+
+    // Blend with the previous frame; non-finite values restart the average
+    for (let i = 0; i < current.length; i++) {
+      const smoothed = smoothingTimeConstant * this.magnitudes[i] + (1 - smoothingTimeConstant) * current[i];
+      this.magnitudes[i] = Number.isFinite(smoothed) ? smoothed : 0;
+    }
+  }
+
+  /**
+   * Smoothed linear magnitude per bin
+   */
+  public getMagnitudes(output: Float32Array = new Float32Array(this.frequencyBinCount)): Float32Array {
+    output.set(this.magnitudes.subarray(0, output.length));
+    return output;
+  }
+
+  /**
+   * dBFS per bin; silent bins are -Infinity, as AnalyserNode reports them
+   */
+  public getFloatFrequencyData(output: Float32Array = new Float32Array(this.frequencyBinCount)): Float32Array {
+    const length = Math.min(output.length, this.magnitudes.length);
+    for (let i = 0; i < length; i++) {
+      output[i] = 20 * Math.log10(this.magnitudes[i]);
+    }
+    return output;
+  }
+
+  /**
+   * Bins scaled from the decibel range to 0-255
+   */
+  public getByteFrequencyData(output: Uint8Array = new Uint8Array(this.frequencyBinCount)): Uint8Array {
+    const { minDecibels, maxDecibels } = this.options;
+    const scale = 255 / (maxDecibels - minDecibels);
+    const length = Math.min(output.length, this.magnitudes.length);
+
+    for (let i = 0; i < length; i++) {
+      const decibels = 20 * Math.log10(this.magnitudes[i]);
+      output[i] = Math.min(Math.max(Math.floor(scale * (decibels - minDecibels)), 0), 255);
+    }
+    return output;
+  }
+
+  /**
+   * Most recent samples (-1 to 1)
+   */
+  public getFloatTimeDomainData(output: Float32Array = new Float32Array(this.fftSize)): Float32Array {
+    output.set(this.timeData.subarray(0, output.length));
+    return output;
+  }
+
+  /**
+   * Most recent samples scaled to 0-255, with silence at 128
+   */
+  public getByteTimeDomainData(output: Uint8Array = new Uint8Array(this.fftSize)): Uint8Array {
+    const length = Math.min(output.length, this.timeData.length);
+    for (let i = 0; i < length; i++) {
+      output[i] = Math.min(Math.max(Math.floor(128 * (1 + this.timeData[i])), 0), 255);
+    }
+    return output;
+  }
+
+  /**
+   * Current frequency and time data as a frame for processAudioData, BeatDetector and friends
+   */
+  public getFrame(format: DataFormat = 'float'): AnalysisFrame {
+    const { sampleRate, minDecibels, maxDecibels } = this.options;
+
+    return {
+      frequencyData: format === 'float' ? this.getFloatFrequencyData() : this.getByteFrequencyData(),
+      timeData: format === 'float' ? this.getFloatTimeDomainData() : this.getByteTimeDomainData(),
+      sampleRate,
+      bufferLength: this.frequencyBinCount,
+      minDecibels,
+      maxDecibels
+    };
+  }
+
+  /**
+   * Update options. A new fftSize restarts smoothing.
+   */
+  public updateOptions(options: Partial<FFTAnalyserOptions>): void {
+    const previous = this.options;
+    const next = { ...this.options, ...options };
+
+    // Keep the current options if the new ones are invalid
+    validateOptions(next);
+    this.options = next;
+
+    if (this.options.fftSize !== previous.fftSize || this.options.window !== previous.window) {
+      this.window = createWindow(this.options.window, this.options.fftSize);
+    }
+    if (this.options.fftSize !== previous.fftSize) {
+      this.timeData = new Float32Array(this.options.fftSize);
+      this.magnitudes = new Float32Array(this.options.fftSize / 2);
+    }
+  }
+
+  /**
+   * Clear the sample history and smoothing
+   */
+  public reset(): void {
+    this.timeData.fill(0);
+    this.magnitudes.fill(0);
+  }
+}
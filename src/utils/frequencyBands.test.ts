@@ -0,0 +1,47 @@
+import { extractFrequencyBands } from './audioProcessor';
+import { createFrequencyBands } from './frequencyBands';
+import { FrequencyBandPreset } from '../types';
+
+describe('createFrequencyBands', () => {
+  it('builds octave bands around the ISO centres', () => {
+    const bands = createFrequencyBands('octave', { minFrequency: 20, maxFrequency: 20000 });
+
+    expect(bands.map(band => band.center)).toEqual([16, 31.5, 63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000]);
+    expect(bands[6].low).toBeCloseTo(1000 / Math.SQRT2);
+  });
+
+  it('rejects unknown presets', () => {
+    expect(() => createFrequencyBands('octaves' as FrequencyBandPreset)).toThrow(
+      expect.objectContaining({ code: 'invalid-options' })
+    );
+  });
+});
+
+describe('extractFrequencyBands', () => {
+  const sampleRate = 48000;
+  const bufferLength = 1024;
+  // One band around 1 kHz, which covers bins 42-45
+  const bands = [{ low: 980, center: 1000, high: 1060 }];
+
+  it('reads byte data in the decibel range it was captured with', () => {
+    // Half the bins at 0 dBFS and half at -120 dBFS, in a -120 to 0 dB range
+    const frequencyData = new Uint8Array(bufferLength).fill(255, 42, 44);
+    const frame = { frequencyData, timeData: new Uint8Array(2048), sampleRate, minDecibels: -120, maxDecibels: 0 };
+
+    const [fromFrame] = extractFrequencyBands(frame, bands);
+    const [fromRange] = extractFrequencyBands(frequencyData, bands, sampleRate, bufferLength, 'rms', { min: -120, max: 0 });
+
+    // -3 dBFS; the default -100 to -30 dB range would give 244
+    expect(fromFrame).toBeCloseTo(255 * 117 / 120, 0);
+    expect(fromRange).toBeCloseTo(fromFrame, 5);
+  });
+
+  it('takes the sample rate from a frame', () => {
+    const frequencyData = new Float32Array(bufferLength).fill(-90);
+    frequencyData.fill(-20, 42, 46);
+
+    const [band] = extractFrequencyBands({ frequencyData, timeData: new Float32Array(2048), sampleRate }, bands);
+
+    expect(band).toBeCloseTo(-20);
+  });
+});
@@ -0,0 +1,306 @@
+import {
+  BandAggregation,
+  DataFormat,
+  FrequencyBand,
+  FrequencyBandOptions,
+  FrequencyBandPreset,
+  FrequencyScale
+} from '../types';
+import { createAudioError } from './errors';
+
+const DEFAULT_MIN_FREQUENCY = 20;
+const DEFAULT_MAX_FREQUENCY = 20000;
+const DEFAULT_BAND_COUNT = 32;
+
+// Nominal ISO 266 centre frequencies for 1/3-octave bands; every third one is an octave centre
+const THIRD_OCTAVE_CENTERS = [
+  16, 20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+  1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000, 20000
+];
+
+// Critical band edges of the Bark scale (Zwicker)
+const BARK_EDGES = [
+  20, 100, 200, 300, 400, 510, 630, 770, 920, 1080, 1270, 1480, 1720,
+  2000, 2320, 2700, 3150, 3700, 4400, 5300, 6400, 7700, 9500, 12000, 15500
+];
+
+/**
+ * Convert a frequency in Hz to mels
+ */
+export const hzToMel = (frequency: number): number => 2595 * Math.log10(1 + frequency / 700);
+
+/**
+ * Convert mels to a frequency in Hz
+ */
+export const melToHz = (mel: number): number => 700 * (Math.pow(10, mel / 2595) - 1);
+
+/**
+ * Fractional-octave bands around the nominal ISO 266 centres.
+ * Edges use the exact base-2 ratios so adjacent bands meet.
+ */
+const createFractionalOctaveBands = (
+  fraction: 1 | 3,
+  minFrequency: number,
+  maxFrequency: number
+): FrequencyBand[] => {
+  const halfBand = Math.pow(2, 1 / (2 * fraction));
+  const bands: FrequencyBand[] = [];
+
+  // Index 18 is the 1 kHz reference band; octaves are every third 1/3-octave band
+  THIRD_OCTAVE_CENTERS.forEach((center, index) => {
+    const step = index - 18;
+    if (fraction === 1 && step % 3 !== 0) return;
+
+    const exact = 1000 * Math.pow(2, step / 3);
+    const band = { low: exact / halfBand, center, high: exact * halfBand };
+
+    if (band.high > minFrequency && band.low < maxFrequency) {
+      bands.push(band);
+    }
+  });
+
+  return bands;
+};
+
+/**
+ * Bands with edges evenly spaced on a warped frequency scale
+ */
+const createWarpedBands = (
+  count: number,
+  minFrequency: number,
+  maxFrequency: number,
+  toScale: (frequency: number) => number,
+  fromScale: (value: number) => number
+): FrequencyBand[] => {
+  const low = toScale(minFrequency);
+  const step = (toScale(maxFrequency) - low) / count;
+
+  return Array.from({ length: count }, (_, index) => ({
+    low: fromScale(low + index * step),
+    center: fromScale(low + (index + 0.5) * step),
+    high: fromScale(low + (index + 1) * step)
+  }));
+};
+
+/**
+ * Create the bands of a preset:
+ * 'octave' and 'third-octave' (ISO 266), 'mel', 'bark', or 'log' (N logarithmically spaced bars)
+ */
+export const createFrequencyBands = (
+  preset: FrequencyBandPreset,
+  options: FrequencyBandOptions = {}
+): FrequencyBand[] => {
+  const {
+    minFrequency = DEFAULT_MIN_FREQUENCY,
+    maxFrequency = DEFAULT_MAX_FREQUENCY,
+    count = DEFAULT_BAND_COUNT
+  } = options;
+
+  switch (preset) {
+    case 'octave':
+      return createFractionalOctaveBands(1, minFrequency, maxFrequency);
+    case 'third-octave':
+      return createFractionalOctaveBands(3, minFrequency, maxFrequency);
+    case 'mel':
+      return createWarpedBands(count, minFrequency, maxFrequency, hzToMel, melToHz);
+    case 'bark': {
+      const bands: FrequencyBand[] = [];
+      for (let i = 0; i < BARK_EDGES.length - 1; i++) {
+        const low = BARK_EDGES[i];
+        const high = BARK_EDGES[i + 1];
+        if (high > minFrequency && low < maxFrequency) {
+          bands.push({ low, center: Math.sqrt(low * high), high });
+        }
+      }
+      return bands;
+    }
+    case 'log':
+      return createWarpedBands(count, Math.max(minFrequency, 1), maxFrequency, Math.log, Math.exp);
+    default:
+      throw createAudioError('invalid-options', `Unknown frequency band preset: ${preset as string}`);
+  }
+};
+
+/**
+ * Turn a list of centre frequencies into bands that meet halfway (geometrically) between centres
+ */
+export const bandsFromCenters = (centers: number[]): FrequencyBand[] =>
+  centers.map((center, index) => {
+    const previous = centers[index - 1];
+    const next = centers[index + 1];
+
+    // The outer edges mirror the inner ones
+    const low = previous !== undefined
+      ? Math.sqrt(previous * center)
+      : next !== undefined ? center * center / Math.sqrt(center * next) : center / Math.SQRT2;
+    const high = next !== undefined
+      ? Math.sqrt(center * next)
+      : previous !== undefined ? center * center / Math.sqrt(previous * center) : center * Math.SQRT2;
+
+    return { low, center, high };
+  });
+
+/**
+ * Resolve band centres, bands or a preset into bands, clamped to the Nyquist frequency
+ */
+export const resolveFrequencyBands = (
+  bands: number[] | FrequencyBand[] | FrequencyBandPreset,
+  sampleRate: number
+): FrequencyBand[] => {
+  const nyquist = sampleRate / 2;
+
+  if (typeof bands === 'string') {
+    return createFrequencyBands(bands, { maxFrequency: Math.min(DEFAULT_MAX_FREQUENCY, nyquist) });
+  }
+
+  const resolved = bands.length > 0 && typeof bands[0] === 'number'
+    ? bandsFromCenters(bands as number[])
+    : bands as FrequencyBand[];
+
+  return resolved.filter(band => band.low < nyquist);
+};
+
+/**
+ * Combine the bins of each band into one value, in the units of the input (bytes or dBFS).
+ * Magnitudes are combined linearly, so a band reflects all of its energy rather than one bin.
+ * Bands narrower than a bin take the value interpolated at their centre.
+ */
+export const aggregateFrequencyBands = (
+  frequencyData: Uint8Array | Float32Array | number[],
+  bands: FrequencyBand[],
+  sampleRate: number,
+  options: {
+    format: DataFormat;
+    aggregation?: BandAggregation;
+    bufferLength?: number;
+    minDecibels?: number;
+    maxDecibels?: number;
+  }
+): number[] => {
+  const {
+    format,
+    aggregation = 'rms',
+    bufferLength = frequencyData.length,
+    minDecibels = -100,
+    maxDecibels = -30
+  } = options;
+  const binWidth = sampleRate / 2 / bufferLength;
+  const decibelRange = maxDecibels - minDecibels;
+
+  // Bytes are decibels scaled to the analyser range
+  const toDecibels = (value: number) =>
+    format === 'byte' ? minDecibels + (value / 255) * decibelRange : value;
+  const fromDecibels = (decibels: number) =>
+    format === 'byte'
+      ? Math.min(Math.max((decibels - minDecibels) / decibelRange * 255, 0), 255)
+      : decibels;
+  const toAmplitude = (value: number) => Math.pow(10, toDecibels(value) / 20);
+
+  return bands.map(({ low, center, high }) => {
+    const first = Math.max(Math.ceil(low / binWidth), 0);
+    const last = Math.min(Math.ceil(high / binWidth) - 1, bufferLength - 1);
+
+    if (last < first) {
+      const position = Math.min(center / binWidth, bufferLength - 1);
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, bufferLength - 1);
+      const fraction = position - index;
+      const amplitude = toAmplitude(frequencyData[index]) * (1 - fraction) +
+        toAmplitude(frequencyData[next]) * fraction;
+      return fromDecibels(20 * Math.log10(amplitude));
+    }
+
+    let sum = 0;
+    let peak = 0;
+    for (let i = first; i <= last; i++) {
+      const amplitude = toAmplitude(frequencyData[i]);
+      sum += aggregation === 'rms' ? amplitude * amplitude : amplitude;
+      peak = Math.max(peak, amplitude);
+    }
+
+    const count = last - first + 1;
+    let amplitude: number;
+    if (aggregation === 'peak') {
+      amplitude = peak;
+    } else if (aggregation === 'mean') {
+      amplitude = sum / count;
+    } else {
+      amplitude = Math.sqrt(sum / count);
+    }
+
+    // Silent bands come out as -Infinity dBFS, or 0 as bytes
+    return fromDecibels(20 * Math.log10(amplitude));
+  });
+};
+
+/**
+ * Resample per-bin values onto `count` points spaced on a linear, log or mel frequency axis.
+ * Points between bins are interpolated; points spanning several bins take the highest,
+ * so narrow peaks aren't skipped where the axis is compressed.
+ *
+ * @returns The resampled values and the frequency in Hz of each point
+ */
+export const resampleSpectrum = (
+  values: ArrayLike<number>,
+  sampleRate: number,
+  options: {
+    scale: FrequencyScale;
+    minFrequency: number;
+    maxFrequency: number;
+    count: number;
+    bufferLength?: number;
+  }
+): { values: number[]; frequencies: number[] } => {
+  const { scale, minFrequency, maxFrequency, count, bufferLength = values.length } = options;
+  const binWidth = sampleRate / 2 / bufferLength;
+
+  const [toScale, fromScale] = scale === 'log'
+    ? [Math.log, Math.exp]
+    : scale === 'mel'
+      ? [hzToMel, melToHz]
+      : [(frequency: number) => frequency, (value: number) => value];
+
+  // Log axes can't start at 0 Hz
+  const low = toScale(scale === 'log' ? Math.max(minFrequency, binWidth) : minFrequency);
+  const step = (toScale(maxFrequency) - low) / Math.max(count - 1, 1);
+
+  const valueAt = (position: number) => {
+    const clamped = Math.min(Math.max(position, 0), bufferLength - 1);
+    const index = Math.floor(clamped);
+    const next = Math.min(index + 1, bufferLength - 1);
+    const fraction = clamped - index;
+    const current = values[index];
+    const following = values[next];
+
+    // Silent float bins are -Infinity, which can't be blended
+    if (!Number.isFinite(current) || !Number.isFinite(following)) {
+      return fraction < 0.5 ? current : following;
+    }
+    return current * (1 - fraction) + following * fraction;
+  };
+
+  const frequencies = new Array(count);
+  const resampled = new Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const frequency = fromScale(low + i * step);
+    const position = frequency / binWidth;
+    frequencies[i] = frequency;
+
+    // Bins halfway to the neighbouring points belong to this point
+    const from = Math.ceil(fromScale(low + (i - 0.5) * step) / binWidth);
+    const to = Math.floor(fromScale(low + (i + 0.5) * step) / binWidth);
+
+    if (to - from >= 1) {
+      let peak = -Infinity;
+      for (let bin = Math.max(from, 0); bin <= Math.min(to, bufferLength - 1); bin++) {
+        peak = Math.max(peak, values[bin]);
+      }
+      resampled[i] = peak === -Infinity ? valueAt(position) : peak;
+    } else {
+      resampled[i] = valueAt(position);
+    }
+  }
+
+  return { values: resampled, frequencies };
+};
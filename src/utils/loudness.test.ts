@@ -0,0 +1,58 @@
+import { LoudnessMeter } from './loudness';
+
+const sampleRate = 48000;
+
+const sine = (frequency: number, decibels: number, seconds: number) => {
+  const amplitude = Math.pow(10, decibels / 20);
+  return Float32Array.from(
+    { length: Math.round(seconds * sampleRate) },
+    (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate)
+  );
+};
+
+describe('LoudnessMeter', () => {
+  // EBU Tech 3341 test case 1: stereo 1 kHz sine at -23 dBFS reads -23 LUFS
+  it('reads a -23 dBFS stereo reference tone as -23 LUFS', () => {
+    const meter = new LoudnessMeter({ sampleRate });
+    const tone = sine(1000, -23, 10);
+
+    // Blocks of any size make no difference
+    for (let offset = 0; offset < tone.length; offset += 4800) {
+      const block = tone.subarray(offset, offset + 4800);
+      meter.process([block, block]);
+    }
+
+    const reading = meter.getReading();
+    expect(Math.abs(reading.momentary + 23)).toBeLessThan(0.1);
+    expect(Math.abs(reading.shortTerm + 23)).toBeLessThan(0.1);
+    expect(Math.abs(reading.integrated + 23)).toBeLessThan(0.1);
+    expect(reading.rms).toBeCloseTo(-26.01, 1);
+    expect(reading.peak).toBeCloseTo(-23, 1);
+  });
+
+  // EBU Tech 3341 test case 3, shortened: quiet parts 13 LU down fall below the relative gate
+  it('gates quiet passages out of integrated loudness', () => {
+    const meter = new LoudnessMeter({ sampleRate });
+    const quiet = sine(1000, -36, 5);
+    const loud = sine(1000, -23, 30);
+    [quiet, loud, quiet].forEach(tone => meter.process([tone, tone]));
+
+    expect(Math.abs(meter.getReading().integrated + 23)).toBeLessThan(0.1);
+  });
+
+  it('applies new channel weights without restarting', () => {
+    const meter = new LoudnessMeter({ sampleRate });
+    const tone = sine(1000, -23, 4);
+    meter.process([tone, tone]);
+
+    meter.updateOptions({ channelWeights: [1, 0], rmsWindow: undefined, peakHold: undefined });
+    meter.process([tone, tone]);
+
+    // One channel carries half the power; integrated loudness keeps the earlier blocks
+    const reading = meter.getReading();
+    expect(Math.abs(reading.momentary + 26.01)).toBeLessThan(0.1);
+    expect(reading.integrated).toBeGreaterThan(-24.5);
+    expect(reading.integrated).toBeLessThan(-24);
+    expect(reading.rms).toBeCloseTo(-26.01, 1);
+  });
+});
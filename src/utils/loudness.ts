@@ -0,0 +1,422 @@
+import { LoudnessMeterOptions, LoudnessReading } from '../types';
+import { createAudioError } from './errors';
+
+// ITU-R BS.1770 gating and window lengths
+const ABSOLUTE_GATE = -70;        // LUFS
+const RELATIVE_GATE = -10;        // LU below the ungated level
+const SUB_BLOCK_SECONDS = 0.1;    // Gating blocks overlap by 75%, so they step in 100 ms
+const MOMENTARY_SUB_BLOCKS = 4;   // 400 ms
+const SHORT_TERM_SUB_BLOCKS = 30; // 3 s
+const TRUE_PEAK_TAPS = 12;        // Interpolation filter taps per phase
+
+// Gating blocks are kept in a loudness histogram from the absolute gate up, so integrated
+// loudness costs the same however long the meter runs. Each bin also sums the block powers,
+// so only blocks within a bin of the relative gate are rounded.
+const HISTOGRAM_STEP = 0.01;      // LU per bin
+const HISTOGRAM_BINS = 7500;      // Up to +5 LUFS; louder blocks go in the last bin
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+interface HeldLevel {
+  level: number;   // dB when the hold started
+  heldAt: number;  // Sample position when the hold started
+}
+
+/**
+ * The two K-weighting stages of BS.1770 (high shelf, then high pass) for any sample rate.
+ * At 48 kHz these match the coefficients published in the standard.
+ */
+const createKWeighting = (sampleRate: number): [Biquad, Biquad] => {
+  // Stage 1: head-related high shelf
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+
+  // Stage 2: RLB high pass
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+
+  return [shelf, highPass];
+};
+
+/**
+ * Polyphase windowed-sinc interpolation filter, one set of taps per output phase
+ */
+const createInterpolationFilter = (factor: number): Float64Array[] => {
+  const length = factor * TRUE_PEAK_TAPS;
+  const center = (length - 1) / 2;
+
+  return Array.from({ length: factor }, (_, phase) => {
+    const taps = new Float64Array(TRUE_PEAK_TAPS);
+    let sum = 0;
+
+    for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+      const n = phase + k * factor;
+      const x = (n - center) / factor;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 - 0.5 * Math.cos(2 * Math.PI * (n + 0.5) / length);
+      taps[k] = sinc * window;
+      sum += taps[k];
+    }
+
+    // Unity gain at DC for every phase
+    for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+      taps[k] /= sum;
+    }
+    return taps;
+  });
+};
+
+/**
+ * BS.1770 channel weights: surrounds of a 5.0 or 5.1 layout count +1.5 dB, the LFE not at all
+ */
+const getDefaultChannelWeights = (channelCount: number): number[] => {
+  if (channelCount === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  if (channelCount === 5) return [1, 1, 1, 1.41, 1.41];
+  return new Array(channelCount).fill(1);
+};
+
+/**
+ * Convert a weighted mean square to LUFS
+ */
+const toLufs = (power: number): number =>
+  power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+
+const fromLufs = (loudness: number): number => Math.pow(10, (loudness + 0.691) / 10);
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Loudness meter following ITU-R BS.1770 / EBU R128
+ *
+ * Feed it contiguous blocks of PCM (one Float32Array per channel) with process(),
+ * e.g. from an AudioBuffer, an AudioWorklet or the useLoudness hook, and read
+ * RMS, sample and true peak, and momentary, short-term and integrated loudness.
+ * Times are measured in samples, so results don't depend on how often you read them.
+ */
+export class LoudnessMeter {
+  private options: Required<Omit<LoudnessMeterOptions, 'channelWeights'>> & Pick<LoudnessMeterOptions, 'channelWeights'>;
+  private filters: [Biquad, Biquad];
+  private interpolation: Float64Array[];
+  private subBlockSize: number;
+
+  // Per-channel filter state: x1, x2, y1, y2 for each of the two stages
+  private filterStates: Float64Array[] = [];
+  // Per-channel recent samples for true peak interpolation, newest first
+  private peakHistories: Float64Array[] = [];
+  private weights: number[] = [];
+
+  // RMS over a sliding window of per-sample mean squares
+  private rmsSquares: Float64Array;
+  private rmsIndex = 0;
+  private rmsSum = 0;
+  private rmsFilled = 0;
+
+  // Loudness in 100 ms sub-blocks
+  private subBlockSum = 0;
+  private subBlockFill = 0;
+  private subBlocks: number[] = [];    // Latest sub-block powers, up to 3 s
+  // 400 ms blocks above the absolute gate since the last reset: count and power sum per bin, and in total
+  private gateCounts = new Uint32Array(HISTOGRAM_BINS);
+  private gateSums = new Float64Array(HISTOGRAM_BINS);
+  private gateCount = 0;
+  private gateSum = 0;
+  private integrated = -Infinity;
+
+  private position = 0; // Samples processed
+  private peak: HeldLevel = { level: -Infinity, heldAt: 0 };
+  private truePeak: HeldLevel = { level: -Infinity, heldAt: 0 };
+  private maxTruePeak = -Infinity;
+
+  constructor(options: LoudnessMeterOptions) {
+    this.options = {
+      sampleRate: options.sampleRate,
+      channelWeights: options.channelWeights,
+      rmsWindow: options.rmsWindow ?? 0.3,
+      peakHold: options.peakHold ?? 1.5,
+      peakDecay: options.peakDecay ?? 20,
+      truePeakOversampling: options.truePeakOversampling ?? 4
+    };
+
+    if (!(this.options.sampleRate > 0)) {
+      throw createAudioError('invalid-options', 'sampleRate must be positive');
+    }
+
+    this.filters = createKWeighting(this.options.sampleRate);
+    this.interpolation = createInterpolationFilter(Math.max(Math.round(this.options.truePeakOversampling), 1));
+    this.subBlockSize = Math.round(this.options.sampleRate * SUB_BLOCK_SECONDS);
+    this.rmsSquares = new Float64Array(Math.max(Math.round(this.options.sampleRate * this.options.rmsWindow), 1));
+  }
+
+  public get sampleRate(): number {
+    return this.options.sampleRate;
+  }
+
+  /**
+   * Measure the next block of samples (-1 to 1), one array per channel.
+   * Blocks must follow on from each other without gaps.
+   */
+  public process(input: Float32Array | Float32Array[]): void {
+    const channels = Array.isArray(input) ? input : [input];
+    if (channels.length === 0) return;
+
+    if (channels.length !== this.filterStates.length) {
+      this.setChannelCount(channels.length);
+    }
+
+    const [shelf, highPass] = this.filters;
+    const oversample = this.interpolation.length > 1;
+    const length = Math.min(...channels.map(channel => channel.length));
+    let blockPeak = 0;
+    let blockTruePeak = 0;
+
+    for (let i = 0; i < length; i++) {
+      let squareSum = 0;
+      let weightedPower = 0;
+
+      for (let c = 0; c < channels.length; c++) {
+        const x = channels[c][i];
+        const state = this.filterStates[c];
+
+        squareSum += x * x;
+        blockPeak = Math.max(blockPeak, Math.abs(x));
+
+        // K-weighting, direct form I
+        const y1 = shelf.b0 * x + shelf.b1 * state[0] + shelf.b2 * state[1] - shelf.a1 * state[2] - shelf.a2 * state[3];
+        state[1] = state[0];
+        state[0] = x;
+        state[3] = state[2];
+        state[2] = y1;
+
+        const y2 = highPass.b0 * y1 + highPass.b1 * state[4] + highPass.b2 * state[5] -
+          highPass.a1 * state[6] - highPass.a2 * state[7];
+        state[5] = state[4];
+        state[4] = y1;
+        state[7] = state[6];
+        state[6] = y2;
+
+        weightedPower += this.weights[c] * y2 * y2;
+
+        if (oversample) {
+          blockTruePeak = Math.max(blockTruePeak, this.interpolatePeak(c, x));
+        }
+      }
+
+      // Sliding RMS window
+      const square = squareSum / channels.length;
+      this.rmsSum += square - this.rmsSquares[this.rmsIndex];
+      this.rmsSquares[this.rmsIndex] = square;
+      this.rmsIndex = (this.rmsIndex + 1) % this.rmsSquares.length;
+      this.rmsFilled = Math.min(this.rmsFilled + 1, this.rmsSquares.length);
+      if (this.rmsIndex === 0) {
+        // Re-sum once per window so rounding errors can't build up
+        this.rmsSum = this.rmsSquares.reduce((sum, value) => sum + value, 0);
+      }
+
+      this.subBlockSum += weightedPower;
+      this.subBlockFill += 1;
+      if (this.subBlockFill === this.subBlockSize) {
+        this.completeSubBlock();
+      }
+    }
+
+    this.position += length;
+
+    const peakLevel = 20 * Math.log10(blockPeak);
+    const truePeakLevel = oversample ? 20 * Math.log10(Math.max(blockTruePeak, blockPeak)) : peakLevel;
+    this.hold(this.peak, peakLevel);
+    this.hold(this.truePeak, truePeakLevel);
+    this.maxTruePeak = Math.max(this.maxTruePeak, truePeakLevel);
+  }
+
+  /**
+   * Current levels. Silence reads -Infinity.
+   */
+  public getReading(): LoudnessReading {
+    const momentary = this.subBlocks.slice(-MOMENTARY_SUB_BLOCKS);
+    const rms = this.rmsFilled > 0 ? Math.max(this.rmsSum, 0) / this.rmsFilled : 0;
+
+    return {
+      rms: 10 * Math.log10(rms),
+      peak: this.getHeldLevel(this.peak),
+      truePeak: this.getHeldLevel(this.truePeak),
+      maxTruePeak: this.maxTruePeak,
+      momentary: momentary.length > 0 ? toLufs(mean(momentary)) : -Infinity,
+      shortTerm: this.subBlocks.length > 0 ? toLufs(mean(this.subBlocks)) : -Infinity,
+      integrated: this.integrated
+    };
+  }
+
+  /**
+   * Restart all measurements; filter state carries on so there's no transient
+   */
+  public reset(): void {
+    this.rmsSquares.fill(0);
+    this.rmsIndex = 0;
+    this.rmsSum = 0;
+    this.rmsFilled = 0;
+    this.subBlockSum = 0;
+    this.subBlockFill = 0;
+    this.subBlocks = [];
+    this.gateCounts.fill(0);
+    this.gateSums.fill(0);
+    this.gateCount = 0;
+    this.gateSum = 0;
+    this.integrated = -Infinity;
+    this.peak = { level: -Infinity, heldAt: this.position };
+    this.truePeak = { level: -Infinity, heldAt: this.position };
+    this.maxTruePeak = -Infinity;
+  }
+
+  /**
+   * Update options. A new sample rate, RMS window or oversampling factor restarts the meter;
+   * new channel weights apply from the next sample without disturbing the filters.
+   */
+  public updateOptions(options: Partial<LoudnessMeterOptions>): void {
+    const previous = this.options;
+    this.options = {
+      sampleRate: options.sampleRate ?? previous.sampleRate,
+      channelWeights: 'channelWeights' in options ? options.channelWeights : previous.channelWeights,
+      rmsWindow: options.rmsWindow ?? previous.rmsWindow,
+      peakHold: options.peakHold ?? previous.peakHold,
+      peakDecay: options.peakDecay ?? previous.peakDecay,
+      truePeakOversampling: options.truePeakOversampling ?? previous.truePeakOversampling
+    };
+
+    if (
+      this.options.sampleRate !== previous.sampleRate ||
+      this.options.rmsWindow !== previous.rmsWindow ||
+      this.options.truePeakOversampling !== previous.truePeakOversampling
+    ) {
+      this.filters = createKWeighting(this.options.sampleRate);
+      this.interpolation = createInterpolationFilter(Math.max(Math.round(this.options.truePeakOversampling), 1));
+      this.subBlockSize = Math.round(this.options.sampleRate * SUB_BLOCK_SECONDS);
+      this.rmsSquares = new Float64Array(Math.max(Math.round(this.options.sampleRate * this.options.rmsWindow), 1));
+      this.setChannelCount(this.filterStates.length);
+      this.reset();
+    } else {
+      this.updateWeights();
+    }
+  }
+
+  /**
+   * Size the per-channel state, restarting the filters
+   */
+  private setChannelCount(channelCount: number): void {
+    this.filterStates = Array.from({ length: channelCount }, () => new Float64Array(8));
+    this.peakHistories = Array.from({ length: channelCount }, () => new Float64Array(TRUE_PEAK_TAPS));
+    this.updateWeights();
+  }
+
+  /**
+   * Resolve the weight of each channel, falling back to the BS.1770 defaults
+   */
+  private updateWeights(): void {
+    const defaults = getDefaultChannelWeights(this.filterStates.length);
+    const weights = this.options.channelWeights;
+
+    this.weights = defaults.map((weight, index) => weights?.[index] ?? weight);
+  }
+
+  /**
+   * Push a sample into a channel's history and return the highest interpolated magnitude
+   */
+  private interpolatePeak(channel: number, sample: number): number {
+    const history = this.peakHistories[channel];
+    history.copyWithin(1, 0, TRUE_PEAK_TAPS - 1);
+    history[0] = sample;
+
+    let peak = 0;
+    for (const taps of this.interpolation) {
+      let value = 0;
+      for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+        value += taps[k] * history[k];
+      }
+      peak = Math.max(peak, Math.abs(value));
+    }
+    return peak;
+  }
+
+  /**
+   * Close a 100 ms sub-block and update the gated integrated loudness
+   */
+  private completeSubBlock(): void {
+    this.subBlocks.push(this.subBlockSum / this.subBlockSize);
+    if (this.subBlocks.length > SHORT_TERM_SUB_BLOCKS) {
+      this.subBlocks.shift();
+    }
+    this.subBlockSum = 0;
+    this.subBlockFill = 0;
+
+    if (this.subBlocks.length < MOMENTARY_SUB_BLOCKS) return;
+
+    // Absolute gate
+    const power = mean(this.subBlocks.slice(-MOMENTARY_SUB_BLOCKS));
+    if (power > fromLufs(ABSOLUTE_GATE)) {
+      const bin = Math.min(Math.floor((toLufs(power) - ABSOLUTE_GATE) / HISTOGRAM_STEP), HISTOGRAM_BINS - 1);
+      this.gateCounts[bin]++;
+      this.gateSums[bin] += power;
+      this.gateCount++;
+      this.gateSum += power;
+    }
+    if (this.gateCount === 0) {
+      this.integrated = -Infinity;
+      return;
+    }
+
+    // Relative gate 10 LU below the absolutely gated level: the bins from the one holding it up
+    const relativeGate = toLufs(this.gateSum / this.gateCount) + RELATIVE_GATE;
+    let count = 0;
+    let sum = 0;
+    for (let bin = Math.max(Math.floor((relativeGate - ABSOLUTE_GATE) / HISTOGRAM_STEP), 0); bin < HISTOGRAM_BINS; bin++) {
+      count += this.gateCounts[bin];
+      sum += this.gateSums[bin];
+    }
+    this.integrated = toLufs(sum / count);
+  }
+
+  /**
+   * Hold a new level if it reaches the currently displayed one
+   */
+  private hold(held: HeldLevel, level: number): void {
+    if (level >= this.getHeldLevel(held)) {
+      held.level = level;
+      held.heldAt = this.position;
+    }
+  }
+
+  /**
+   * Displayed level of a held peak: constant during the hold, then falling at peakDecay
+   */
+  private getHeldLevel(held: HeldLevel): number {
+    const elapsed = (this.position - held.heldAt) / this.options.sampleRate;
+    const decaying = elapsed - this.options.peakHold;
+    return decaying > 0 ? held.level - decaying * this.options.peakDecay : held.level;
+  }
+}
@@ -0,0 +1,80 @@
+import { analyzeAudioBuffer } from './offlineAnalysis';
+import { AudioBufferLike } from '../types';
+
+const createBuffer = (channels: Float32Array[], sampleRate: number): AudioBufferLike => ({
+  sampleRate,
+  length: channels[0].length,
+  duration: channels[0].length / sampleRate,
+  numberOfChannels: channels.length,
+  getChannelData: (channel: number) => channels[channel]
+});
+
+const sine = (frequency: number, amplitude: number, length: number, sampleRate: number) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+describe('analyzeAudioBuffer', () => {
+  const sampleRate = 48000;
+
+  it('computes waveform peaks of each window', () => {
+    const samples = new Float32Array(1000);
+    samples[10] = 0.5;
+    samples[600] = -0.25;
+
+    const { peaks } = analyzeAudioBuffer(createBuffer([samples], sampleRate), {
+      peakCount: 2,
+      spectrogram: false,
+      features: false
+    });
+
+    expect(peaks.samplesPerPeak).toBe(500);
+    expect(Array.from(peaks.max)).toEqual([0.5, 0]);
+    expect(Array.from(peaks.min)).toEqual([0, -0.25]);
+  });
+
+  it('builds a spectrogram with one row per hop', () => {
+    const samples = sine(1000, 0.5, sampleRate, sampleRate);
+    const { spectrogram, frames, duration } = analyzeAudioBuffer(createBuffer([samples], sampleRate), {
+      fftSize: 1024,
+      hopSize: 512
+    });
+
+    expect(duration).toBe(1);
+    expect(spectrogram).not.toBeNull();
+    expect(spectrogram!.data).toHaveLength(Math.ceil(sampleRate / 512));
+    expect(spectrogram!.times[1]).toBeCloseTo(512 / sampleRate);
+    expect(spectrogram!.binWidth).toBeCloseTo(sampleRate / 1024);
+    expect(frames).toHaveLength(spectrogram!.data.length);
+
+    // The loudest bin of a full frame is the tone's
+    const row = spectrogram!.data[10];
+    const loudest = row.indexOf(Math.max(...row));
+    expect(loudest * spectrogram!.binWidth).toBeCloseTo(1000, -2);
+  });
+
+  it('downmixes channels unless one is picked', () => {
+    const left = new Float32Array(2048).fill(0.5);
+    const right = new Float32Array(2048).fill(-0.5);
+    const buffer = createBuffer([left, right], sampleRate);
+
+    expect(analyzeAudioBuffer(buffer, { peakCount: 1, spectrogram: false, features: false }).peaks.max[0]).toBe(0);
+    expect(analyzeAudioBuffer(buffer, { peakCount: 1, channel: 1, spectrogram: false, features: false }).peaks.min[0]).toBe(-0.5);
+  });
+
+  it('measures stereo over whole frames, like live analysis', () => {
+    // In phase for the first half of the frame, out of phase for the second
+    const left = sine(1000, 0.5, 2048, sampleRate);
+    const right = left.map((sample, i) => i < 1024 ? sample : -sample);
+
+    const { frames } = analyzeAudioBuffer(createBuffer([left, right], sampleRate), { fftSize: 2048, spectrogram: false });
+
+    expect(frames[0].stereo!.goniometer).toHaveLength(2048);
+    expect(Math.abs(frames[0].stereo!.correlation)).toBeLessThan(0.05);
+  });
+
+  it('rejects invalid options', () => {
+    const buffer = createBuffer([new Float32Array(100)], sampleRate);
+
+    expect(() => analyzeAudioBuffer(buffer, { hopSize: 0 })).toThrow(expect.objectContaining({ code: 'invalid-options' }));
+    expect(() => analyzeAudioBuffer(buffer, { channel: 1 })).toThrow(expect.objectContaining({ code: 'invalid-options' }));
+  });
+});
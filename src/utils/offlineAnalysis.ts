@@ -0,0 +1,160 @@
+import {
+  AudioBufferAnalysis,
+  AudioBufferAnalysisOptions,
+  AudioBufferFrame,
+  AudioBufferLike,
+  Spectrogram,
+  WaveformPeaks
+} from '../types';
+import { processAudioData, calculateStereoMetrics } from './audioProcessor';
+import { FFTAnalyser } from './fft';
+import { createAudioError } from './errors';
+
+/**
+ * Average the channels into one mono signal
+ */
+export const mixChannels = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+
+  const mix = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mix.length; i++) {
+      mix[i] += channel[i] / channels.length;
+    }
+  }
+  return mix;
+};
+
+/**
+ * Copy `size` samples starting at `offset`, padding past the end with silence
+ */
+export const readFrame = (samples: Float32Array, offset: number, size: number): Float32Array => {
+  const frame = new Float32Array(size);
+  frame.set(samples.subarray(offset, Math.min(offset + size, samples.length)));
+  return frame;
+};
+
+/**
+ * Min/max sample of each of `count` equal windows, for drawing a waveform overview
+ */
+const computePeaks = (samples: Float32Array, count: number): WaveformPeaks => {
+  const peakCount = Math.max(1, Math.min(count, samples.length));
+  const samplesPerPeak = samples.length / peakCount;
+  const min = new Float32Array(peakCount);
+  const max = new Float32Array(peakCount);
+
+  for (let peak = 0; peak < peakCount; peak++) {
+    const start = Math.floor(peak * samplesPerPeak);
+    const end = Math.max(Math.floor((peak + 1) * samplesPerPeak), start + 1);
+    let low = 0;
+    let high = 0;
+
+    for (let i = start; i < end && i < samples.length; i++) {
+      const sample = samples[i];
+      if (sample < low) low = sample;
+      if (sample > high) high = sample;
+    }
+
+    min[peak] = low;
+    max[peak] = high;
+  }
+
+  return { min, max, samplesPerPeak };
+};
+
+/**
+ * Analyze a whole decoded file faster than real time, without an AnalyserNode.
+ * Returns waveform peaks, a spectrogram and per-frame features for drawing
+ * track overviews before playback, or for analysis outside the browser.
+ *
+ * @param buffer Decoded audio, or any object with the same shape
+ * @param options Frame size, hop, peak resolution and what to compute
+ */
+export const analyzeAudioBuffer = (
+  buffer: AudioBufferLike,
+  options: AudioBufferAnalysisOptions = {}
+): AudioBufferAnalysis => {
+  const {
+    fftSize = 2048,
+    hopSize = fftSize / 2,
+    window = 'blackman',
+    smoothingTimeConstant = 0,
+    peakCount = 1000,
+    minDecibels = -100,
+    maxDecibels = -30,
+    channel,
+    spectrogram: includeSpectrogram = true,
+    features: includeFeatures = true,
+    processing
+  } = options;
+
+  if (!(hopSize >= 1)) {
+    throw createAudioError('invalid-options', `hopSize must be at least 1, got ${hopSize}`);
+  }
+  if (channel !== undefined && (channel < 0 || channel >= buffer.numberOfChannels)) {
+    throw createAudioError('invalid-options', `Channel ${channel} is out of range`);
+  }
+
+  const { sampleRate, numberOfChannels } = buffer;
+  const channels = channel !== undefined
+    ? [buffer.getChannelData(channel)]
+    : Array.from({ length: numberOfChannels }, (_, index) => buffer.getChannelData(index));
+  const samples = mixChannels(channels);
+  const binCount = fftSize / 2;
+
+  // Validates fftSize, smoothing and the decibel range
+  const analyser = new FFTAnalyser({
+    sampleRate,
+    fftSize,
+    window,
+    smoothingTimeConstant,
+    minDecibels,
+    maxDecibels
+  });
+
+  const spectrogram: Spectrogram | null = includeSpectrogram
+    ? { data: [], times: [], binCount, binWidth: sampleRate / fftSize }
+    : null;
+  const frames: AudioBufferFrame[] = [];
+
+  if (includeSpectrogram || includeFeatures) {
+    for (let offset = 0; offset < samples.length; offset += hopSize) {
+      const start = Math.floor(offset);
+      const time = start / sampleRate;
+      const timeData = readFrame(samples, start, fftSize);
+      analyser.process(timeData);
+      const frequencyData = analyser.getFloatFrequencyData();
+
+      if (spectrogram) {
+        spectrogram.data.push(frequencyData);
+        spectrogram.times.push(time);
+      }
+
+      if (includeFeatures) {
+        const features = processAudioData(
+          { frequencyData, timeData, sampleRate, bufferLength: binCount, minDecibels, maxDecibels },
+          processing
+        );
+
+        // Stereo metrics from the first two channels of the file
+        if (channels.length >= 2) {
+          features.stereo = calculateStereoMetrics(
+            readFrame(channels[0], start, fftSize),
+            readFrame(channels[1], start, fftSize)
+          );
+        }
+
+        frames.push({ ...features, time });
+      }
+    }
+  }
+
+  return {
+    duration: buffer.duration,
+    sampleRate,
+    numberOfChannels,
+    peaks: computePeaks(samples, peakCount),
+    spectrogram,
+    frames
+  };
+};
@@ -0,0 +1,263 @@
+import { AudioFrameInput, OnsetDetector, OnsetDetectorOptions, OnsetInfo } from '../types';
+import {
+  getBufferLength,
+  getDataFormat,
+  getDecibelRange,
+  getFrameTime,
+  getSampleRate,
+  toLinearMagnitude,
+  toTimeSample
+} from './dataFormat';
+import { createWindow, fft } from './fft';
+
+type NoveltyMethod = 'spectral-flux' | 'hfc' | 'complex';
+
+// How much of the running peak is kept per second when normalizing the detection function
+const PEAK_DECAY = 0.74;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Onset detection from a spectral detection function with adaptive median peak-picking.
+ *
+ * - 'spectral-flux': summed magnitude increases since the previous frame
+ * - 'hfc': high-frequency content, magnitudes weighted by frequency, for percussive attacks
+ * - 'complex': rectified complex-domain distance from the phase and magnitude predicted by
+ *   the previous two frames, which also catches soft tonal onsets. It runs its own FFT on the
+ *   time data (AnalyserNode has no phase), and assumes frames arrive at a steady rate.
+ *
+ * The detection function is normalized by its decaying peak, and an onset is a rising value
+ * above `multiplier` times the moving median plus `threshold`. The median window and the
+ * peak decay are measured on the frame time (the audio clock for live frames).
+ */
+export class NoveltyOnsetDetector implements OnsetDetector {
+  private method: NoveltyMethod;
+  private options: Required<Omit<OnsetDetectorOptions, 'frequencyRange' | 'decayRate' | 'historyWindow'>> &
+    Pick<OnsetDetectorOptions, 'frequencyRange'>;
+  private history: { time: number; value: number }[] = [];
+  private previousValue = 0;
+  private peak = 0;
+  private lastBeatTime = -Infinity;
+  private startTime: number | null = null;
+  private lastTime: number | null = null;
+  private lastInfo: OnsetInfo | null = null;
+
+  // Previous spectra: magnitudes for flux, and magnitudes and phases of two frames for 'complex'
+  private previousMagnitudes: Float32Array | null = null;
+  private previousPhases: Float32Array | null = null;
+  private olderPhases: Float32Array | null = null;
+  private window: Float32Array | null = null;
+
+  constructor(method: NoveltyMethod, options: OnsetDetectorOptions = {}) {
+    this.method = method;
+    this.options = {
+      threshold: options.threshold ?? 0.1,
+      minTimeBetweenBeats: options.minTimeBetweenBeats ?? 250,
+      frequencyRange: options.frequencyRange,
+      multiplier: options.multiplier ?? 1.5,
+      medianWindow: options.medianWindow ?? 0.5
+    };
+  }
+
+  /**
+   * Detect onsets from a live or plain frame
+   */
+  public detect(audioData: AudioFrameInput | null): OnsetInfo {
+    if (!audioData) {
+      return { isBeat: false, energy: 0, averageEnergy: 0, delta: 0, time: this.lastTime ?? 0 };
+    }
+
+    const currentTime = getFrameTime(audioData);
+
+    // The clock hasn't moved (e.g. paused, or called twice for one frame): nothing new to detect
+    if (this.lastInfo && currentTime === this.lastTime) {
+      return { ...this.lastInfo, isBeat: false };
+    }
+    // The clock went back, e.g. a new context: start over
+    if (this.lastTime !== null && currentTime < this.lastTime) {
+      this.reset();
+    }
+
+    const elapsed = this.lastTime !== null ? currentTime - this.lastTime : 0;
+    this.lastTime = currentTime;
+    if (this.startTime === null) {
+      this.startTime = currentTime;
+    }
+
+    const { threshold, multiplier, medianWindow, minTimeBetweenBeats } = this.options;
+    const novelty = this.method === 'complex'
+      ? this.complexDomain(audioData)
+      : this.spectralNovelty(audioData);
+
+    // Normalize by the decaying peak, so thresholds don't depend on level or method
+    this.peak = Math.max(novelty, this.peak * Math.pow(PEAK_DECAY, elapsed));
+    const energy = this.peak > 0 ? novelty / this.peak : 0;
+
+    // No onsets until the median window has filled, while the peak is still settling
+    const adaptiveThreshold = currentTime - this.startTime >= medianWindow && this.history.length > 0
+      ? multiplier * median(this.history.map(entry => entry.value)) + threshold
+      : Infinity;
+    const delta = energy - adaptiveThreshold;
+
+    this.history.push({ time: currentTime, value: energy });
+    while (this.history.length > 0 && this.history[0].time <= currentTime - medianWindow) {
+      this.history.shift();
+    }
+
+    const isBeat = delta > 0 &&
+      energy > this.previousValue &&
+      (currentTime - this.lastBeatTime) * 1000 > minTimeBetweenBeats;
+    this.previousValue = energy;
+
+    if (isBeat) {
+      this.lastBeatTime = currentTime;
+    }
+
+    this.lastInfo = {
+      isBeat,
+      energy,
+      averageEnergy: Number.isFinite(adaptiveThreshold) ? adaptiveThreshold : 0,
+      delta: Number.isFinite(delta) ? delta : 0,
+      time: currentTime
+    };
+    return this.lastInfo;
+  }
+
+  /**
+   * Reset detector state
+   */
+  public reset(): void {
+    this.history = [];
+    this.previousValue = 0;
+    this.peak = 0;
+    this.lastBeatTime = -Infinity;
+    this.startTime = null;
+    this.lastTime = null;
+    this.lastInfo = null;
+    this.previousMagnitudes = null;
+    this.previousPhases = null;
+    this.olderPhases = null;
+  }
+
+  /**
+   * Update options
+   */
+  public updateOptions(options: Partial<OnsetDetectorOptions>): void {
+    const previous = this.options;
+
+    // Options left undefined keep their current value; decayRate and historyWindow are 'energy' only
+    this.options = {
+      threshold: options.threshold ?? previous.threshold,
+      minTimeBetweenBeats: options.minTimeBetweenBeats ?? previous.minTimeBetweenBeats,
+      frequencyRange: options.frequencyRange ?? previous.frequencyRange,
+      multiplier: options.multiplier ?? previous.multiplier,
+      medianWindow: options.medianWindow ?? previous.medianWindow
+    };
+  }
+
+  /**
+   * Bins of the frequency range, or of the whole spectrum
+   */
+  private getBinRange(bufferLength: number, sampleRate: number): [number, number] {
+    const { frequencyRange } = this.options;
+    const binWidth = sampleRate / 2 / bufferLength;
+
+    if (!frequencyRange) {
+      return [0, bufferLength - 1];
+    }
+    return [
+      Math.max(Math.floor(frequencyRange.low / binWidth), 0),
+      Math.min(Math.ceil(frequencyRange.high / binWidth), bufferLength - 1)
+    ];
+  }
+
+  /**
+   * Spectral flux or high-frequency content of the analyser magnitudes
+   */
+  private spectralNovelty(audioData: AudioFrameInput): number {
+    const { frequencyData } = audioData;
+    const format = getDataFormat(frequencyData);
+    const decibels = getDecibelRange(audioData);
+    const bufferLength = getBufferLength(audioData);
+    const [first, last] = this.getBinRange(bufferLength, getSampleRate(audioData));
+
+    const magnitudes = new Float32Array(bufferLength);
+    for (let i = first; i <= last; i++) {
+      magnitudes[i] = toLinearMagnitude(frequencyData[i], format, decibels.min, decibels.max);
+    }
+
+    let novelty = 0;
+    if (this.method === 'hfc') {
+      for (let i = first; i <= last; i++) {
+        novelty += i * magnitudes[i] * magnitudes[i];
+      }
+    } else {
+      const previous = this.previousMagnitudes;
+      if (previous && previous.length === bufferLength) {
+        for (let i = first; i <= last; i++) {
+          novelty += Math.max(magnitudes[i] - previous[i], 0);
+        }
+      }
+    }
+
+    this.previousMagnitudes = magnitudes;
+    return novelty;
+  }
+
+  /**
+   * Rectified complex-domain distance, summed over bins whose magnitude grew
+   */
+  private complexDomain(audioData: AudioFrameInput): number {
+    const { timeData } = audioData;
+    const format = getDataFormat(timeData);
+    const size = timeData.length;
+    const binCount = size / 2;
+
+    if (!this.window || this.window.length !== size) {
+      this.window = createWindow('hann', size);
+      this.previousMagnitudes = null;
+      this.previousPhases = null;
+      this.olderPhases = null;
+    }
+
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      real[i] = toTimeSample(timeData[i], format) * this.window[i];
+    }
+    fft(real, imag);
+
+    const [first, last] = this.getBinRange(binCount, getSampleRate(audioData));
+    const magnitudes = new Float32Array(binCount);
+    const phases = new Float32Array(binCount);
+    const previousMagnitudes = this.previousMagnitudes;
+    const previousPhases = this.previousPhases;
+    const olderPhases = this.olderPhases;
+    let novelty = 0;
+
+    for (let i = 0; i < binCount; i++) {
+      magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) / size;
+      phases[i] = Math.atan2(imag[i], real[i]);
+
+      if (
+        previousMagnitudes && previousPhases && olderPhases &&
+        i >= first && i <= last && magnitudes[i] >= previousMagnitudes[i]
+      ) {
+        // Predicted bin: the previous magnitude, with the phase advancing at the same rate
+        const predictedPhase = 2 * previousPhases[i] - olderPhases[i];
+        const differenceReal = magnitudes[i] * Math.cos(phases[i]) - previousMagnitudes[i] * Math.cos(predictedPhase);
+        const differenceImag = magnitudes[i] * Math.sin(phases[i]) - previousMagnitudes[i] * Math.sin(predictedPhase);
+        novelty += Math.sqrt(differenceReal * differenceReal + differenceImag * differenceImag);
+      }
+    }
+
+    this.olderPhases = previousPhases;
+    this.previousPhases = phases;
+    this.previousMagnitudes = magnitudes;
+    return novelty;
+  }
+}
@@ -0,0 +1,45 @@
+import { PitchDetector } from './pitch';
+
+const sampleRate = 48000;
+
+const sine = (frequency: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => 0.5 * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+describe('PitchDetector', () => {
+  it('detects a guitar low E in a default 2048 sample window', () => {
+    const pitch = new PitchDetector().detectSamples(sine(82.41, 2048), sampleRate);
+
+    expect(pitch.frequency).not.toBeNull();
+    expect(Math.abs((pitch.frequency as number) - 82.41)).toBeLessThan(0.2);
+    expect(pitch.note).toBe('E');
+    expect(pitch.octave).toBe(2);
+    expect(Math.abs(pitch.cents)).toBeLessThan(5);
+  });
+
+  it('reports no pitch when the period does not fit twice in the window', () => {
+    const detector = new PitchDetector();
+
+    // 82.41 and 90 Hz periods (582 and 533 samples) are longer than half of 1024
+    expect(detector.detectSamples(sine(82.41, 1024), sampleRate).frequency).toBeNull();
+    expect(detector.detectSamples(sine(90, 1024), sampleRate).frequency).toBeNull();
+  });
+
+  it('reads frames with byte time data', () => {
+    const samples = sine(440, 2048);
+    const timeData = Uint8Array.from(samples, sample => Math.floor(128 * (1 + sample)));
+    const pitch = new PitchDetector().detect({ frequencyData: new Uint8Array(1024), timeData, sampleRate });
+
+    expect(pitch.note).toBe('A');
+    expect(pitch.octave).toBe(4);
+  });
+
+  it('keeps its options when new ones are invalid', () => {
+    const detector = new PitchDetector();
+
+    expect(() => detector.updateOptions({ minFrequency: 500, maxFrequency: 400 })).toThrow(
+      expect.objectContaining({ code: 'invalid-options' })
+    );
+    detector.updateOptions({ minFrequency: undefined, threshold: undefined });
+    expect(detector.detectSamples(sine(220, 2048), sampleRate).note).toBe('A');
+  });
+});
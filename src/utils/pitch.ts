@@ -0,0 +1,245 @@
+import { AudioFrameInput, NoteInfo, PitchDetectorOptions, PitchInfo } from '../types';
+import { getDataFormat, getSampleRate, toTimeSample } from './dataFormat';
+import { createAudioError } from './errors';
+import { fft } from './fft';
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const NO_PITCH: PitchInfo = {
+  frequency: null,
+  clarity: 0,
+  midi: null,
+  note: null,
+  octave: null,
+  cents: 0
+};
+
+/**
+ * Nearest equal-tempered note to a frequency, and how far off it is in cents
+ */
+export const frequencyToNote = (frequency: number, referenceFrequency: number = 440): NoteInfo => {
+  const position = 69 + 12 * Math.log2(frequency / referenceFrequency);
+  const midi = Math.round(position);
+
+  return {
+    midi,
+    note: NOTE_NAMES[((midi % 12) + 12) % 12],
+    octave: Math.floor(midi / 12) - 1,
+    cents: (position - midi) * 100
+  };
+};
+
+/**
+ * Frequency of a MIDI note in Hz
+ */
+export const noteToFrequency = (midi: number, referenceFrequency: number = 440): number =>
+  referenceFrequency * Math.pow(2, (midi - 69) / 12);
+
+/**
+ * Check detector options, throwing an 'invalid-options' error
+ */
+const validateOptions = (options: Required<PitchDetectorOptions>): void => {
+  const { minFrequency, maxFrequency, referenceFrequency } = options;
+
+  if (!(minFrequency > 0) || !(maxFrequency > minFrequency)) {
+    throw createAudioError('invalid-options', 'Pitch range must satisfy 0 < minFrequency < maxFrequency');
+  }
+  if (!(referenceFrequency > 0)) {
+    throw createAudioError('invalid-options', 'referenceFrequency must be positive');
+  }
+};
+
+/**
+ * Time-domain pitch detector using the McLeod Pitch Method.
+ *
+ * The normalized square difference function of the frame is searched for the first
+ * period that is nearly as periodic as the best one, which avoids the octave errors
+ * of picking the loudest FFT bin. Periods must fit twice in the frame, so the lowest
+ * detectable pitch is about 2 * sampleRate / frame length; live frames hold fftSize
+ * samples (47 Hz at 48 kHz with the default 2048). Lower pitches read as unvoiced.
+ */
+export class PitchDetector {
+  private options: Required<PitchDetectorOptions>;
+
+  // Scratch buffers, reused while the frame size stays the same
+  private samples = new Float32Array(0);
+  private real = new Float32Array(0);
+  private imag = new Float32Array(0);
+  private nsdf = new Float32Array(0);
+
+  constructor(options: PitchDetectorOptions = {}) {
+    this.options = {
+      minFrequency: options.minFrequency ?? 50,
+      maxFrequency: options.maxFrequency ?? 2000,
+      threshold: options.threshold ?? 0.9,
+      minClarity: options.minClarity ?? 0.6,
+      minVolume: options.minVolume ?? 0.01,
+      referenceFrequency: options.referenceFrequency ?? 440
+    };
+
+    validateOptions(this.options);
+  }
+
+  /**
+   * Detect the pitch of the time data (byte or float) of a live or plain frame
+   */
+  public detect(audioData: AudioFrameInput | null): PitchInfo {
+    if (!audioData) {
+      return { ...NO_PITCH };
+    }
+
+    const { timeData } = audioData;
+    let samples: Float32Array;
+
+    if (getDataFormat(timeData) === 'float') {
+      samples = timeData as Float32Array;
+    } else {
+      if (this.samples.length !== timeData.length) {
+        this.samples = new Float32Array(timeData.length);
+      }
+      for (let i = 0; i < timeData.length; i++) {
+        this.samples[i] = toTimeSample(timeData[i], 'byte');
+      }
+      samples = this.samples;
+    }
+
+    return this.detectSamples(samples, getSampleRate(audioData));
+  }
+
+  /**
+   * Detect the pitch of a block of PCM samples (-1 to 1)
+   */
+  public detectSamples(samples: Float32Array, sampleRate: number): PitchInfo {
+    const { minFrequency, maxFrequency, threshold, minClarity, minVolume, referenceFrequency } = this.options;
+    const size = samples.length;
+
+    let energy = 0;
+    for (let i = 0; i < size; i++) {
+      energy += samples[i] * samples[i];
+    }
+    if (size === 0 || Math.sqrt(energy / size) < minVolume) {
+      return { ...NO_PITCH };
+    }
+
+    const minLag = Math.max(Math.floor(sampleRate / maxFrequency), 1);
+    const maxLag = Math.min(Math.ceil(sampleRate / minFrequency), Math.floor(size / 2));
+    if (maxLag <= minLag) {
+      return { ...NO_PITCH };
+    }
+
+    // One extra lag so the last candidate can be interpolated
+    const nsdf = this.computeNsdf(samples, energy, maxLag + 2);
+    const peaks: number[] = [];
+    let best = -1;
+
+    // Key maxima: the highest point of each positive lobe after the one around lag 0
+    let lag = 1;
+    while (lag <= maxLag && nsdf[lag] > 0) lag++;
+
+    for (; lag <= maxLag; lag++) {
+      if (nsdf[lag] > 0) {
+        if (best < 0 || nsdf[lag] > nsdf[best]) best = lag;
+      } else if (best >= 0) {
+        peaks.push(best);
+        best = -1;
+      }
+    }
+    if (best >= 0) peaks.push(best);
+
+    // A lobe still rising at maxLag has its true peak out of range, so it isn't a candidate
+    const candidates = peaks.filter(peak => peak >= minLag && peak < maxLag);
+    if (candidates.length === 0) {
+      return { ...NO_PITCH };
+    }
+
+    const highest = Math.max(...candidates.map(peak => nsdf[peak]));
+    const period = candidates.find(peak => nsdf[peak] >= threshold * highest) ?? candidates[0];
+
+    // Parabolic interpolation for sub-sample period and clarity; the vertex of a
+    // local maximum lies within half a sample of it
+    const previous = nsdf[period - 1];
+    const current = nsdf[period];
+    const next = nsdf[period + 1];
+    const curvature = previous - 2 * current + next;
+    const shift = curvature < 0 ? Math.min(Math.max(0.5 * (previous - next) / curvature, -0.5), 0.5) : 0;
+    const clarity = Math.min(current - 0.25 * (previous - next) * shift, 1);
+
+    if (clarity < minClarity) {
+      return { ...NO_PITCH, clarity: Math.max(clarity, 0) };
+    }
+
+    const interpolated = period + shift;
+    if (interpolated < minLag || interpolated > maxLag) {
+      return { ...NO_PITCH };
+    }
+
+    const frequency = sampleRate / interpolated;
+    return {
+      frequency,
+      clarity,
+      ...frequencyToNote(frequency, referenceFrequency)
+    };
+  }
+
+  /**
+   * Update options. Throws an 'invalid-options' error, keeping the current options, if they're invalid.
+   */
+  public updateOptions(options: Partial<PitchDetectorOptions>): void {
+    const previous = this.options;
+    const next = {
+      minFrequency: options.minFrequency ?? previous.minFrequency,
+      maxFrequency: options.maxFrequency ?? previous.maxFrequency,
+      threshold: options.threshold ?? previous.threshold,
+      minClarity: options.minClarity ?? previous.minClarity,
+      minVolume: options.minVolume ?? previous.minVolume,
+      referenceFrequency: options.referenceFrequency ?? previous.referenceFrequency
+    };
+
+    // Keep the current options if the new ones are invalid
+    validateOptions(next);
+    this.options = next;
+  }
+
+  /**
+   * Normalized square difference of lags 0 to lagCount - 1.
+   * The autocorrelation is computed with an FFT, zero-padded so lags don't wrap around.
+   */
+  private computeNsdf(samples: Float32Array, energy: number, lagCount: number): Float32Array {
+    const size = samples.length;
+    let fftSize = 1;
+    while (fftSize < size + lagCount) fftSize <<= 1;
+
+    if (this.real.length !== fftSize) {
+      this.real = new Float32Array(fftSize);
+      this.imag = new Float32Array(fftSize);
+    }
+    if (this.nsdf.length !== lagCount) {
+      this.nsdf = new Float32Array(lagCount);
+    }
+
+    const { real, imag, nsdf } = this;
+    real.fill(0);
+    imag.fill(0);
+    real.set(samples);
+
+    fft(real, imag);
+    for (let i = 0; i < fftSize; i++) {
+      real[i] = real[i] * real[i] + imag[i] * imag[i];
+      imag[i] = 0;
+    }
+    // The power spectrum is real and symmetric, so a forward FFT inverts it (times fftSize)
+    fft(real, imag);
+
+    // Sum of squares of both overlapping parts, updated as the lag grows
+    let squares = 2 * energy;
+    for (let lag = 0; lag < lagCount; lag++) {
+      if (lag > 0) {
+        squares -= samples[lag - 1] * samples[lag - 1] + samples[size - lag] * samples[size - lag];
+      }
+      const correlation = lag < size ? real[lag] / fftSize : 0;
+      nsdf[lag] = squares > 0 ? 2 * correlation / squares : 0;
+    }
+
+    return nsdf;
+  }
+}
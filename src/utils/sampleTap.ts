@@ -0,0 +1,133 @@
+const PROCESSOR_NAME = 'react-audio-visualizer-sample-tap';
+const SCRIPT_PROCESSOR_SIZE = 2048;
+
+// Posts the input in blocks of 1024 frames (8 render quanta) to keep messages down
+const PROCESSOR_SOURCE = `
+class SampleTapProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.blocks = [];
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (input.length === 0) return true;
+
+    this.blocks.push(input.map(channel => channel.slice()));
+    this.length += input[0].length;
+
+    if (this.length >= 1024) {
+      const channels = input.map((_, channel) => {
+        const samples = new Float32Array(this.length);
+        let offset = 0;
+        for (const block of this.blocks) {
+          samples.set(block[channel], offset);
+          offset += block[0].length;
+        }
+        return samples;
+      });
+      this.port.postMessage(channels, channels.map(samples => samples.buffer));
+      this.blocks = [];
+      this.length = 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', SampleTapProcessor);
+`;
+
+/**
+ * Processor module loads per context, as a processor can only be registered once
+ */
+const processorModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadProcessorModule = (context: BaseAudioContext): Promise<void> => {
+  let module = processorModules.get(context);
+
+  if (!module) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    module = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    processorModules.set(context, module);
+  }
+
+  return module;
+};
+
+/**
+ * Disconnect a tap, which the source may have dropped already (e.g. source.disconnect())
+ */
+const disconnectTap = (source: AudioNode, node: AudioNode): void => {
+  try {
+    source.disconnect(node);
+  } catch (err) {
+    // Source was no longer connected to the tap
+  }
+};
+
+export interface SampleTap {
+  disconnect: () => void;
+}
+
+/**
+ * Receive every sample flowing out of a node, in order and without gaps.
+ * Analyser snapshots only hold the latest fftSize samples, so anything that
+ * has to see all of the audio (like loudness integration) taps the node instead.
+ * Uses an AudioWorklet where available, and a ScriptProcessorNode otherwise.
+ *
+ * @param source Node whose output is tapped, e.g. an AnalyserNode (which passes its input through)
+ * @param channelCount Channels delivered; the source is up- or down-mixed to this count
+ * @param onSamples Called with one array per channel for each block of new samples
+ */
+export const createSampleTap = async (
+  source: AudioNode,
+  channelCount: number,
+  onSamples: (channels: Float32Array[]) => void
+): Promise<SampleTap> => {
+  const context = source.context;
+
+  if (typeof AudioWorkletNode !== 'undefined' && context.audioWorklet) {
+    try {
+      await loadProcessorModule(context);
+
+      // No outputs, so the node is processed without being connected to the speakers
+      const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers'
+      });
+      node.port.onmessage = (event: MessageEvent<Float32Array[]>) => onSamples(event.data);
+      source.connect(node);
+
+      return {
+        disconnect: () => {
+          node.port.onmessage = null;
+          disconnectTap(source, node);
+        }
+      };
+    } catch (err) {
+      // Worklets need a secure context; fall back to a script processor
+    }
+  }
+
+  const node = context.createScriptProcessor(SCRIPT_PROCESSOR_SIZE, channelCount, 1);
+  node.onaudioprocess = event => {
+    const { inputBuffer } = event;
+    onSamples(Array.from({ length: channelCount }, (_, channel) => inputBuffer.getChannelData(channel).slice()));
+  };
+
+  // Script processors only run while connected to the destination; the output stays silent
+  source.connect(node);
+  node.connect(context.destination);
+
+  return {
+    disconnect: () => {
+      node.onaudioprocess = null;
+      disconnectTap(source, node);
+      node.disconnect();
+    }
+  };
+};
@@ -0,0 +1,68 @@
+import { VoiceActivityDetector } from './voiceActivity';
+
+const sampleRate = 48000;
+const fps = 60;
+
+// Frame of a 1 kHz tone at the given RMS level in dBFS
+const frame = (level: number) => {
+  const amplitude = Math.SQRT2 * Math.pow(10, level / 20);
+  return {
+    frequencyData: new Float32Array(1024).fill(-100),
+    timeData: Float32Array.from({ length: 2048 }, (_, i) => amplitude * Math.sin(2 * Math.PI * 1000 * i / sampleRate)),
+    sampleRate
+  };
+};
+
+describe('VoiceActivityDetector', () => {
+  it('releases a sustained noise step instead of latching speech', () => {
+    const detector = new VoiceActivityDetector();
+    const quiet = frame(-50);
+    const loud = frame(-30);
+    let speechStart: number | null = null;
+    let speechEnd: number | null = null;
+
+    for (let n = 0; n < 60 * fps; n++) {
+      const time = n / fps;
+      const info = detector.detect(time < 5 ? quiet : loud, time);
+      if (info.isSpeechStart) speechStart = time;
+      if (info.isSpeechEnd) speechEnd = time;
+    }
+
+    // The step first looks like speech, then the floor catches up with it
+    expect(speechStart).not.toBeNull();
+    expect(speechStart as number).toBeLessThan(5.5);
+    expect(speechEnd).not.toBeNull();
+    expect(speechEnd as number).toBeLessThan(30);
+    expect(detector.detect(loud, 60).isSpeaking).toBe(false);
+  });
+
+  it('keeps speech with pauses going as speech', () => {
+    const detector = new VoiceActivityDetector();
+    const quiet = frame(-50);
+    const loud = frame(-30);
+    let segments = 0;
+
+    for (let n = 0; n < 30 * fps; n++) {
+      const time = n / fps;
+      // Two seconds of noise, then 0.8 s words with 0.2 s pauses
+      const speaking = time >= 2 && (time - 2) % 1 < 0.8;
+      const info = detector.detect(speaking ? loud : quiet, time);
+      if (info.isSpeechStart) segments += 1;
+    }
+
+    expect(segments).toBe(1);
+    expect(detector.detect(loud, 30).isSpeaking).toBe(true);
+  });
+
+  it('ignores options given as undefined', () => {
+    const detector = new VoiceActivityDetector();
+    detector.updateOptions({ onThreshold: undefined, offThreshold: undefined, noiseAdaptation: undefined });
+
+    detector.detect(frame(-50), 0);
+    const info = detector.detect(frame(-50), 0.5);
+
+    expect(info.noiseFloor).toBeCloseTo(-50, 1);
+    expect(detector.detect(frame(-30), 0.6).level).toBeCloseTo(-30, 1);
+    expect(detector.detect(frame(-30), 0.8).isSpeaking).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+import { AudioFrameInput, VoiceActivityDetectorOptions, VoiceActivityInfo } from '../types';
+import {
+  getBufferLength,
+  getDataFormat,
+  getDecibelRange,
+  getFrameTime,
+  getSampleRate,
+  toTimeSample
+} from './dataFormat';
+
+// Floor for levels, so digital silence doesn't drag the noise estimate to -Infinity
+const MIN_DECIBELS = -120;
+const MIN_POWER = 1e-12;
+
+// The noise floor rises this many times slower during speech, so a sustained
+// noise step still ends up as noise while pauses in real speech reset the floor
+const SPEECH_ADAPTATION_SLOWDOWN = 4;
+
+/**
+ * Voice activity detector with an adaptive noise floor.
+ *
+ * Speech starts once the level stays onThreshold dB above the noise floor for
+ * minSpeechDuration, and ends once it has been below offThreshold for the hangover,
+ * so breaths don't trigger it and word endings aren't clipped. The noise floor
+ * follows quiet frames down at once and rises slowly, and slower still during speech.
+ */
+export class VoiceActivityDetector {
+  private options: Required<VoiceActivityDetectorOptions>;
+  private noiseFloor: number | null = null;
+  private lastTime: number | null = null;
+  private isSpeaking = false;
+  private pendingStart: number | null = null; // When the level went up, before speech is confirmed
+  private lastVoiceTime = 0;                  // When the level was last above the threshold
+  private speechStartTime: number | null = null;
+  private speechEndTime: number | null = null;
+
+  constructor(options: VoiceActivityDetectorOptions = {}) {
+    this.options = {
+      onThreshold: options.onThreshold ?? 9,
+      offThreshold: options.offThreshold ?? 5,
+      minLevel: options.minLevel ?? -60,
+      minSpeechDuration: options.minSpeechDuration ?? 0.1,
+      hangover: options.hangover ?? 0.3,
+      noiseAdaptation: options.noiseAdaptation ?? 3,
+      bandLimited: options.bandLimited ?? false,
+      speechBand: options.speechBand ?? {
+        low: 300,
+        high: 3400
+      },
+      maxFlatness: options.maxFlatness ?? 1
+    };
+  }
+
+  /**
+   * Classify a live or plain frame.
+   *
+   * @param audioData Frame to classify
+   * @param time Time of the frame in seconds (default: the frame's time, see getFrameTime)
+   */
+  public detect(audioData: AudioFrameInput, time?: number): VoiceActivityInfo {
+    const {
+      onThreshold,
+      offThreshold,
+      minLevel,
+      minSpeechDuration,
+      hangover,
+      noiseAdaptation,
+      bandLimited,
+      maxFlatness
+    } = this.options;
+
+    const now = time ?? getFrameTime(audioData);
+    const elapsed = this.lastTime !== null ? Math.max(now - this.lastTime, 0) : 0;
+    this.lastTime = now;
+
+    const band = this.measureSpeechBand(audioData);
+    const level = bandLimited ? band.level : this.measureLevel(audioData);
+    const flooredLevel = Math.max(level, MIN_DECIBELS);
+
+    // Quiet frames pull the floor down at once; it creeps up, more slowly during speech
+    if (this.noiseFloor === null || flooredLevel < this.noiseFloor) {
+      this.noiseFloor = flooredLevel;
+    } else {
+      const inSpeech = this.isSpeaking || this.pendingStart !== null;
+      const timeConstant = noiseAdaptation * (inSpeech ? SPEECH_ADAPTATION_SLOWDOWN : 1);
+      this.noiseFloor += (flooredLevel - this.noiseFloor) * (1 - Math.exp(-elapsed / timeConstant));
+    }
+
+    const threshold = this.noiseFloor + (this.isSpeaking ? offThreshold : onThreshold);
+    const isVoice = level >= threshold && level >= minLevel && band.flatness <= maxFlatness;
+
+    let isSpeechStart = false;
+    let isSpeechEnd = false;
+
+    if (!this.isSpeaking) {
+      if (!isVoice) {
+        this.pendingStart = null;
+      } else {
+        this.pendingStart = this.pendingStart ?? now;
+
+        if (now - this.pendingStart >= minSpeechDuration) {
+          this.isSpeaking = true;
+          this.speechStartTime = this.pendingStart;
+          this.speechEndTime = null;
+          this.lastVoiceTime = now;
+          this.pendingStart = null;
+          isSpeechStart = true;
+        }
+      }
+    } else if (isVoice) {
+      this.lastVoiceTime = now;
+    } else if (now - this.lastVoiceTime >= hangover) {
+      this.isSpeaking = false;
+      this.speechEndTime = this.lastVoiceTime;
+      isSpeechEnd = true;
+    }
+
+    return {
+      isSpeaking: this.isSpeaking,
+      isSpeechStart,
+      isSpeechEnd,
+      speechStartTime: this.speechStartTime,
+      speechEndTime: this.speechEndTime,
+      level,
+      noiseFloor: this.noiseFloor,
+      flatness: band.flatness,
+      time: now
+    };
+  }
+
+  /**
+   * Update options
+   */
+  public updateOptions(options: Partial<VoiceActivityDetectorOptions>): void {
+    const previous = this.options;
+    this.options = {
+      onThreshold: options.onThreshold ?? previous.onThreshold,
+      offThreshold: options.offThreshold ?? previous.offThreshold,
+      minLevel: options.minLevel ?? previous.minLevel,
+      minSpeechDuration: options.minSpeechDuration ?? previous.minSpeechDuration,
+      hangover: options.hangover ?? previous.hangover,
+      noiseAdaptation: options.noiseAdaptation ?? previous.noiseAdaptation,
+      bandLimited: options.bandLimited ?? previous.bandLimited,
+      speechBand: options.speechBand ?? previous.speechBand,
+      maxFlatness: options.maxFlatness ?? previous.maxFlatness
+    };
+  }
+
+  /**
+   * Forget the noise floor and the current segment
+   */
+  public reset(): void {
+    this.noiseFloor = null;
+    this.lastTime = null;
+    this.isSpeaking = false;
+    this.pendingStart = null;
+    this.lastVoiceTime = 0;
+    this.speechStartTime = null;
+    this.speechEndTime = null;
+  }
+
+  /**
+   * Broadband RMS of the time data in dBFS
+   */
+  private measureLevel(audioData: AudioFrameInput): number {
+    const { timeData } = audioData;
+    const format = getDataFormat(timeData);
+    let sum = 0;
+
+    for (let i = 0; i < timeData.length; i++) {
+      const sample = toTimeSample(timeData[i], format);
+      sum += sample * sample;
+    }
+
+    return 10 * Math.log10(sum / Math.max(timeData.length, 1));
+  }
+
+  /**
+   * Power and spectral flatness of the bins in the speech band
+   */
+  private measureSpeechBand(audioData: AudioFrameInput): { level: number; flatness: number } {
+    const { frequencyData } = audioData;
+    const { speechBand } = this.options;
+    const format = getDataFormat(frequencyData);
+    const decibels = getDecibelRange(audioData);
+    const bufferLength = getBufferLength(audioData);
+    const binWidth = getSampleRate(audioData) / 2 / bufferLength;
+
+    const first = Math.max(Math.ceil(speechBand.low / binWidth), 0);
+    const last = Math.min(Math.floor(speechBand.high / binWidth), bufferLength - 1);
+    let sum = 0;
+    let logSum = 0;
+
+    for (let i = first; i <= last; i++) {
+      // Bytes are decibels scaled to the analyser range
+      const value = format === 'byte'
+        ? decibels.min + (frequencyData[i] / 255) * (decibels.max - decibels.min)
+        : frequencyData[i];
+      const power = Math.max(Math.pow(10, value / 10), MIN_POWER);
+      sum += power;
+      logSum += Math.log(power);
+    }
+
+    const count = last - first + 1;
+    if (count <= 0) {
+      return { level: -Infinity, flatness: 0 };
+    }
+
+    return {
+      level: 10 * Math.log10(sum),
+      flatness: Math.exp(logSum / count) / (sum / count)
+    };
+  }
+}